@@ -30,9 +30,28 @@ function copyDir(rel) {
   }
 }
 
+// Copy a file from node_modules into dist (third-party runtime assets)
+function copyVendor(fromModule, rel) {
+  const to = path.join(dist, rel);
+  ensureDir(path.dirname(to));
+  fs.copyFileSync(path.join(root, 'node_modules', fromModule), to);
+}
+
 ensureDir(dist);
 copyFile('manifest.json');
 copyFile('popup.html');
+copyFile('options.html');
+copyFile('offscreen.html');
+copyFile('bench.html');
 copyDir('ui');
+
+// Tesseract OCR: loader, worker, LSTM wasm cores and English model
+copyVendor('tesseract.js/dist/tesseract.min.js', 'vendor/tesseract/tesseract.min.js');
+copyVendor('tesseract.js/dist/worker.min.js', 'vendor/tesseract/worker.min.js');
+for (const core of ['tesseract-core-lstm', 'tesseract-core-simd-lstm']) {
+  copyVendor(`tesseract.js-core/${core}.wasm.js`, `vendor/tesseract/${core}.wasm.js`);
+  copyVendor(`tesseract.js-core/${core}.wasm`, `vendor/tesseract/${core}.wasm`);
+}
+copyVendor('@tesseract.js-data/eng/4.0.0_best_int/eng.traineddata.gz', 'vendor/tesseract/lang/eng.traineddata.gz');
 console.log('Copied static assets to dist');
 
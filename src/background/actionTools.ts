@@ -0,0 +1,155 @@
+// Page actions offered to the model as tools, and the checks a call must pass
+// before it is forwarded to the tab. The panel still resolves targets and asks
+// before anything that changes the page.
+import type { ToolCall, ToolSpec } from "./providers.js";
+
+// The subset of JSON Schema these tools use
+export type JsonSchema = {
+  type?: "object" | "array" | "string" | "number" | "integer" | "boolean";
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean;
+  minProperties?: number;
+  items?: JsonSchema;
+  minItems?: number;
+  maxItems?: number;
+  enum?: string[];
+  pattern?: string;
+  maxLength?: number;
+};
+
+export const ROLES = ["button", "link", "textbox", "combobox", "checkbox", "radio", "tab", "menuitem", "option"];
+
+const TARGET: JsonSchema = {
+  type: "object",
+  description: 'One element: its visible text or label, optionally its role, or a ref from context.snapshot such as {"ref":"e12"}.',
+  properties: {
+    text: { type: "string", maxLength: 200, description: "Visible text, label or placeholder" },
+    role: { type: "string", enum: ROLES },
+    ref: { type: "string", pattern: "^e\\d+$", description: "Ref from context.snapshot; preferred when the element is listed" }
+  },
+  additionalProperties: false,
+  minProperties: 1
+};
+
+const HIGHLIGHT_TARGET: JsonSchema = {
+  ...TARGET,
+  properties: {
+    ...TARGET.properties,
+    label: { type: "string", maxLength: 40, description: 'Badge next to the outline, e.g. "Step 1"' },
+    color: { type: "string", maxLength: 30, description: "CSS color of the outline" }
+  }
+};
+
+const targetTool = (name: string, description: string, extra: Record<string, JsonSchema> = {}): ToolSpec => ({
+  name,
+  description,
+  parameters: {
+    type: "object",
+    properties: { target: TARGET, ...extra },
+    required: ["target", ...Object.keys(extra)],
+    additionalProperties: false
+  }
+});
+
+export const ACTION_TOOLS: ToolSpec[] = [
+  {
+    name: "highlight",
+    description: "Outline elements on the page to show the user where they are. Use whenever the user asks to show or locate UI.",
+    parameters: {
+      type: "object",
+      properties: { targets: { type: "array", items: HIGHLIGHT_TARGET, minItems: 1, maxItems: 8 } },
+      required: ["targets"],
+      additionalProperties: false
+    }
+  },
+  targetTool("scroll", "Scroll an element into view."),
+  targetTool("focus", "Move keyboard focus to a form field."),
+  targetTool("fill", "Type a value into a text field. Changes the page; the user confirms first. Only when asked to do it.",
+    { value: { type: "string", maxLength: 2000 } }),
+  targetTool("select", "Choose an option in a dropdown. Changes the page; the user confirms first. Only when asked to do it.",
+    { option: { type: "string", maxLength: 200, description: "Visible text of the option" } }),
+  targetTool("click", "Click a button or link. Changes the page; the user confirms first. Only when asked to do it."),
+  {
+    name: "tour",
+    description: "Walk the user through several steps; each step highlights one target and waits until the user has done it.",
+    parameters: {
+      type: "object",
+      properties: {
+        steps: {
+          type: "array",
+          minItems: 1,
+          maxItems: 12,
+          items: {
+            type: "object",
+            properties: {
+              target: TARGET,
+              instruction: { type: "string", maxLength: 300 },
+              expect: { ...TARGET, description: "Element that appears once the step is done (optional)" }
+            },
+            required: ["target", "instruction"],
+            additionalProperties: false
+          }
+        }
+      },
+      required: ["steps"],
+      additionalProperties: false
+    }
+  }
+];
+
+export type ActionCheck = { ok: true; action: Record<string, unknown> } | { ok: false; error: string };
+
+// A tool call as the panel's action object ({"action":"click","target":{...}}), or why it was refused
+export function toAction(call: ToolCall): ActionCheck {
+  const tool = ACTION_TOOLS.find((t) => t.name === call.name);
+  if (!tool) return { ok: false, error: `unknown tool "${call.name}"` };
+  if (call.error) return { ok: false, error: call.error };
+  const errors = validateSchema(call.arguments, tool.parameters as JsonSchema);
+  if (errors.length) return { ok: false, error: errors.slice(0, 3).join("; ") };
+  return { ok: true, action: { action: call.name, ...(call.arguments as Record<string, unknown>) } };
+}
+
+// Collects every violation, with a path such as "targets[0].role"
+export function validateSchema(value: unknown, schema: JsonSchema, path = "arguments"): string[] {
+  const errors: string[] = [];
+  const kind = Array.isArray(value) ? "array" : value === null ? "null" : typeof value;
+  const typeOk = !schema.type
+    || schema.type === kind
+    || (schema.type === "integer" && Number.isInteger(value));
+  if (!typeOk) return [`${path} must be ${schema.type === "array" || schema.type === "object" ? "an" : "a"} ${schema.type}`];
+
+  if (schema.enum && !schema.enum.includes(value as string)) errors.push(`${path} must be one of ${schema.enum.join(", ")}`);
+  if (typeof value === "string") {
+    if (schema.maxLength != null && value.length > schema.maxLength) errors.push(`${path} is longer than ${schema.maxLength} characters`);
+    if (schema.pattern && !new RegExp(schema.pattern).test(value)) errors.push(`${path} has the wrong format`);
+  }
+  if (Array.isArray(value)) {
+    if (schema.minItems != null && value.length < schema.minItems) errors.push(`${path} needs at least ${schema.minItems} item(s)`);
+    if (schema.maxItems != null && value.length > schema.maxItems) errors.push(`${path} allows at most ${schema.maxItems} items`);
+    if (schema.items) value.forEach((v, i) => errors.push(...validateSchema(v, schema.items!, `${path}[${i}]`)));
+  }
+  if (kind === "object") {
+    const obj = value as Record<string, unknown>;
+    const keys = Object.keys(obj);
+    for (const r of schema.required || []) if (!(r in obj)) errors.push(`${path}.${r} is required`);
+    if (schema.minProperties != null && keys.length < schema.minProperties) errors.push(`${path} is empty`);
+    for (const k of keys) {
+      const sub = schema.properties?.[k];
+      if (sub) errors.push(...validateSchema(obj[k], sub, `${path}.${k}`));
+      else if (schema.additionalProperties === false) errors.push(`${path}.${k} is not allowed`);
+    }
+  }
+  return errors;
+}
+
+// Same action with keys in any order gives the same key
+export function actionKey(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(actionKey).join(",")}]`;
+  if (value && typeof value === "object") {
+    const obj = value as Record<string, unknown>;
+    return `{${Object.keys(obj).sort().map((k) => `${JSON.stringify(k)}:${actionKey(obj[k])}`).join(",")}}`;
+  }
+  return JSON.stringify(value);
+}
@@ -0,0 +1,197 @@
+// Context builder: token-budgeted history, rolling summaries and relevance-trimmed page hints
+import type { ChatMessage, Provider, ToolSpec, Usage } from "./providers.js";
+import { budgetKey, reconcile, type Reservation } from "./rateLimit.js";
+
+export const CONTEXT_BUDGET = 6000;      // prompt tokens we aim to send per request
+const ESTIMATE_MARGIN = 0.85;            // countTokens is an estimate; plan against 85% of the budget
+export const HINTS_BUDGET = 1200;        // share reserved for DOM/OCR hints
+export const SNAPSHOT_BUDGET = 1500;     // share reserved for the page snapshot lines
+export const KEEP_RECENT_MESSAGES = 6;   // always sent verbatim (3 user/assistant turns)
+const MESSAGE_OVERHEAD = 4;              // role/separator tokens per chat message
+const REPLY_PRIMING = 3;
+const SUMMARY_REPLY_TOKENS = 300;        // reserved for the summary itself (max 150 words)
+
+export type ContextBreakdown = {
+  system: number;
+  summary: number;
+  history: number;
+  context: number;
+  total: number;
+  summarizedMessages: number;
+  droppedHints: number;
+};
+
+export type PageContext = { domHints?: string[]; ocrHints?: string[]; snapshot?: string[]; [k: string]: any };
+
+// An estimate, not a tokenizer: pieces are split like cl100k_base's
+// pre-tokenizer, then each is costed by its length. Common words are one token; long or rare runs
+// split roughly every 4 characters. Much closer than chars/4 for code, JSON,
+// numbers and non-English text.
+const PIECE_RE = /'(?:s|t|re|ve|m|ll|d)|[^\r\n\p{L}\p{N}]?\p{L}+|\p{N}{1,3}| ?[^\s\p{L}\p{N}]+[\r\n]*|\s*[\r\n]+|\s+/giu;
+
+export function countTokens(text: string): number {
+  if (!text) return 0;
+  let n = 0;
+  for (const m of text.matchAll(PIECE_RE)) {
+    const piece = m[0];
+    if (/\p{L}/u.test(piece)) {
+      const letters = piece.trim().length;
+      // non-ASCII letters (e.g. Romanian diacritics) usually cost more
+      const ascii = /^[\x00-\x7f]*$/.test(piece);
+      n += letters <= 6 ? 1 : Math.ceil(letters / (ascii ? 4 : 2.5));
+    } else if (/\p{N}/u.test(piece)) {
+      n += 1;
+    } else {
+      n += Math.max(1, Math.ceil(piece.trim().length / 2));
+    }
+  }
+  return n;
+}
+
+export function countMessages(messages: ChatMessage[]): number {
+  return messages.reduce((sum, m) => sum + countTokens(m.content) + MESSAGE_OVERHEAD
+    + (m.toolCalls?.length ? countTokens(JSON.stringify(m.toolCalls)) : 0), 0) + REPLY_PRIMING;
+}
+
+// Keep the hints most related to the question, in their original page order
+export function trimHints(hints: string[] | undefined, question: string, budget: number): { kept: string[]; dropped: number } {
+  const list = Array.isArray(hints) ? hints.filter((h) => typeof h === "string") : [];
+  const words = new Set(question.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter((w) => w.length > 2));
+  const scored = list.map((text, idx) => {
+    const lower = text.toLowerCase();
+    let score = 0;
+    for (const w of words) if (lower.includes(w)) score += 1;
+    return { text, idx, score, cost: countTokens(text) + 1 };
+  });
+  scored.sort((a, b) => b.score - a.score || a.idx - b.idx);
+  const kept: typeof scored = [];
+  let used = 0;
+  for (const s of scored) {
+    if (used + s.cost > budget) continue;
+    kept.push(s);
+    used += s.cost;
+  }
+  kept.sort((a, b) => a.idx - b.idx);
+  return { kept: kept.map((k) => k.text), dropped: list.length - kept.length };
+}
+
+type SummaryState = { firstMessage: string; upTo: number; summary: string };
+const summaries = new Map<string, SummaryState>(); // by conversation key (tab)
+
+export type ResolvedLLM = { provider: Provider; baseUrl: string; model: string; apiKey: string | null };
+
+// Older turns collapse into a rolling summary once the history outgrows its
+// share of the budget; the latest KEEP_RECENT_MESSAGES are always verbatim.
+export async function buildContext(args: {
+  key: string;
+  systemPrompt: string;
+  messages: ChatMessage[];
+  context: PageContext | undefined;
+  llm: ResolvedLLM;
+  tools?: ToolSpec[];
+  signal?: AbortSignal;
+  preview?: boolean; // never call the provider: a payload preview must not send the older turns anywhere
+  reserve: (res: Reservation, signal?: AbortSignal) => Promise<boolean>; // the RPM/TPM budget, for the summary request
+}): Promise<{ messages: ChatMessage[]; breakdown: ContextBreakdown }> {
+  const { key, systemPrompt, llm, signal } = args;
+  const messages = (args.messages || []).filter((m) => m && typeof m.content === "string");
+  const question = [...messages].reverse().find((m) => m.role === "user")?.content || "";
+
+  const dom = trimHints(args.context?.domHints, question, Math.round(HINTS_BUDGET * 0.7));
+  const ocr = trimHints(args.context?.ocrHints, question, Math.round(HINTS_BUDGET * 0.3));
+  // Snapshot lines stand alone (each carries its ref), so they trim like hints
+  const snap = trimHints(args.context?.snapshot, question, SNAPSHOT_BUDGET);
+  const page: PageContext = { ...(args.context || {}), domHints: dom.kept, ocrHints: ocr.kept, snapshot: snap.kept };
+  const contextMsg: ChatMessage = { role: "system", content: JSON.stringify({ context: page }) };
+  const sysMsg: ChatMessage = { role: "system", content: systemPrompt };
+
+  // Tool schemas ride along with the system prompt and cost the same
+  const toolTokens = args.tools?.length ? countTokens(JSON.stringify(args.tools)) : 0;
+  const fixed = countMessages([sysMsg, contextMsg]) + toolTokens;
+  const historyBudget = Math.max(500, Math.floor(CONTEXT_BUDGET * ESTIMATE_MARGIN) - fixed);
+
+  let recent = messages;
+  let summaryMsg: ChatMessage | null = null;
+  let summarized = 0;
+  if (countMessages(messages) > historyBudget && messages.length > KEEP_RECENT_MESSAGES) {
+    const older = messages.slice(0, messages.length - KEEP_RECENT_MESSAGES);
+    recent = messages.slice(-KEEP_RECENT_MESSAGES);
+    const summary = args.preview ? previewSummary(key, older) : await rollingSummary(key, older, llm, args.reserve, signal);
+    if (summary) {
+      summaryMsg = { role: "system", content: `Summary of the earlier conversation:\n${summary}` };
+      summarized = older.length;
+    }
+  }
+  // Still too long (huge pasted turns): drop the oldest verbatim messages, keep the last one
+  while (recent.length > 1 && countMessages(recent) > historyBudget) recent = recent.slice(1);
+
+  const out = [sysMsg, ...(summaryMsg ? [summaryMsg] : []), ...recent, contextMsg];
+  const breakdown: ContextBreakdown = {
+    system: countMessages([sysMsg]) - REPLY_PRIMING + toolTokens,
+    summary: summaryMsg ? countMessages([summaryMsg]) - REPLY_PRIMING : 0,
+    history: countMessages(recent) - REPLY_PRIMING,
+    context: countMessages([contextMsg]) - REPLY_PRIMING,
+    total: countMessages(out) + toolTokens,
+    summarizedMessages: summarized,
+    droppedHints: dom.dropped + ocr.dropped + snap.dropped
+  };
+  return { messages: out, breakdown };
+}
+
+export function forgetSummary(key: string) {
+  summaries.delete(key);
+}
+
+// The cached summary when it already covers the older turns, else a marker of what would be summarized
+function previewSummary(key: string, older: ChatMessage[]): string {
+  const state = summaries.get(key);
+  if (state && state.firstMessage === older[0]?.content && state.upTo === older.length) return state.summary;
+  return `(${older.length} earlier messages would be summarized by the provider when this is sent${state?.summary ? `; summary so far: ${state.summary}` : ""})`;
+}
+
+async function rollingSummary(key: string, older: ChatMessage[], llm: ResolvedLLM, reserve: BudgetReserve, signal?: AbortSignal): Promise<string> {
+  let state = summaries.get(key);
+  // A cleared or different conversation in this tab starts over
+  if (!state || state.firstMessage !== older[0]?.content || state.upTo > older.length) {
+    state = { firstMessage: older[0]?.content || "", upTo: 0, summary: "" };
+  }
+  if (state.upTo < older.length) {
+    try {
+      state.summary = await summarizeTurns(llm, state.summary, older.slice(state.upTo), reserve, signal);
+      state.upTo = older.length;
+      summaries.set(key, state);
+    } catch (_) {
+      // Summary is an optimisation; fall back to trimming if it fails
+      return state.summary;
+    }
+  }
+  return state.summary;
+}
+
+type BudgetReserve = (res: Reservation, signal?: AbortSignal) => Promise<boolean>;
+
+// A request like any other: it waits for the summary model's RPM/TPM budget first
+async function summarizeTurns(llm: ResolvedLLM, previous: string, turns: ChatMessage[], reserve: BudgetReserve, signal?: AbortSignal): Promise<string> {
+  const transcript = turns.map((m) => `${m.role}: ${m.content}`).join("\n\n");
+  const model = llm.provider.summaryModel || llm.model;
+  const messages: ChatMessage[] = [
+    {
+      role: "system",
+      content: "Update the running summary of a chat between a user and a web/AWS assistant. Keep goals, decisions, names, resource identifiers and unresolved questions. Max 150 words. Reply with the summary only."
+    },
+    { role: "user", content: `Current summary:\n${previous || "(none)"}\n\nNew turns:\n${transcript}` }
+  ];
+  const req = llm.provider.buildRequest({ model, apiKey: llm.apiKey, baseUrl: llm.baseUrl, messages });
+  const reservation: Reservation = { key: budgetKey(llm.provider.id, model), tokens: countMessages(messages) + SUMMARY_REPLY_TOKENS };
+  if (!(await reserve(reservation, signal))) throw new Error("stopped");
+  const resp = await fetch(req.url, { ...req.init, signal });
+  if (!resp.ok || !resp.body) {
+    reconcile(reservation, resp.headers, null);
+    throw new Error(`${resp.status} ${resp.statusText}`);
+  }
+  let text = "";
+  let usage: Usage | null = null;
+  for await (const delta of llm.provider.parseStream(resp.body, { onUsage: (u) => { usage = u; } })) text += delta;
+  reconcile(reservation, resp.headers, usage);
+  return text.trim();
+}
@@ -0,0 +1,144 @@
+// Keys remembered on this device are stored encrypted: AES-GCM under a key
+// derived from the user's passphrase (PBKDF2-SHA-256). The passphrase is never
+// stored; while unlocked the derived key sits in session storage (memory only,
+// not readable by content scripts) so a restarted worker stays unlocked.
+// Locking drops it and every decrypted key.
+import type { ProviderId } from "./providers.js";
+
+const VAULT_KEY = "KEY_VAULT";          // chrome.storage.local: salt, check value, encrypted keys
+const SESSION_KEY = "KEY_VAULT_UNLOCKED"; // chrome.storage.session: raw derived key while unlocked
+const PBKDF2_ITERATIONS = 310_000;
+const CHECK_TEXT = "aws-assist-key-vault";
+
+type Sealed = { iv: string; data: string };
+type Vault = { version: 1; salt: string; iterations: number; check: Sealed; keys: Partial<Record<ProviderId, Sealed>> };
+
+export type VaultStatus = { exists: boolean; locked: boolean; stored: ProviderId[] };
+
+let cryptoKey: CryptoKey | null = null;
+
+async function loadVault(): Promise<Vault | null> {
+  const data = await chrome.storage.local.get(VAULT_KEY);
+  return (data?.[VAULT_KEY] as Vault) || null;
+}
+
+async function saveVault(v: Vault) {
+  await chrome.storage.local.set({ [VAULT_KEY]: v });
+}
+
+// The derived key, from memory or the session stash; null while locked
+async function currentKey(): Promise<CryptoKey | null> {
+  if (cryptoKey) return cryptoKey;
+  try {
+    const data = await chrome.storage.session.get(SESSION_KEY);
+    const raw = data?.[SESSION_KEY] as string | undefined;
+    if (raw) cryptoKey = await crypto.subtle.importKey("raw", fromBase64(raw), "AES-GCM", true, ["encrypt", "decrypt"]);
+  } catch (_) { /* stays locked */ }
+  return cryptoKey;
+}
+
+export async function vaultStatus(): Promise<VaultStatus> {
+  const v = await loadVault();
+  return {
+    exists: !!v,
+    locked: !!v && !(await currentKey()),
+    stored: v ? (Object.keys(v.keys) as ProviderId[]) : []
+  };
+}
+
+// Opens the vault (creating it on first use) and returns every stored key; null for a wrong passphrase
+export async function unlockVault(passphrase: string): Promise<Partial<Record<ProviderId, string>> | null> {
+  let v = await loadVault();
+  if (!v) {
+    const salt = crypto.getRandomValues(new Uint8Array(16));
+    const key = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+    v = { version: 1, salt: toBase64(salt), iterations: PBKDF2_ITERATIONS, check: await seal(key, CHECK_TEXT), keys: {} };
+    await saveVault(v);
+    await remember(key);
+    return {};
+  }
+  const key = await deriveKey(passphrase, fromBase64(v.salt), v.iterations);
+  if ((await open(key, v.check)) !== CHECK_TEXT) return null;
+  await remember(key);
+  const keys: Partial<Record<ProviderId, string>> = {};
+  for (const [id, sealed] of Object.entries(v.keys)) {
+    const plain = sealed && (await open(key, sealed));
+    if (plain) keys[id as ProviderId] = plain;
+  }
+  return keys;
+}
+
+export async function lockVault() {
+  cryptoKey = null;
+  try { await chrome.storage.session.remove(SESSION_KEY); } catch (_) { /* ignore */ }
+}
+
+// Encrypt (or with null, remove) one provider's key; false while locked
+export async function storeKey(id: ProviderId, apiKey: string | null): Promise<boolean> {
+  const v = await loadVault();
+  if (!v) return apiKey === null;
+  if (apiKey === null) {
+    delete v.keys[id];
+    await saveVault(v);
+    return true;
+  }
+  const key = await currentKey();
+  if (!key) return false;
+  v.keys[id] = await seal(key, apiKey);
+  await saveVault(v);
+  return true;
+}
+
+// Forgotten passphrase: the stored keys are unrecoverable, so start over
+export async function resetVault() {
+  await lockVault();
+  await chrome.storage.local.remove(VAULT_KEY);
+}
+
+async function remember(key: CryptoKey) {
+  cryptoKey = key;
+  try {
+    const raw = new Uint8Array(await crypto.subtle.exportKey("raw", key));
+    await chrome.storage.session.set({ [SESSION_KEY]: toBase64(raw) });
+  } catch (_) { /* unlocked until the worker stops */ }
+}
+
+async function deriveKey(passphrase: string, salt: BufferSource, iterations: number): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey("raw", new TextEncoder().encode(passphrase), "PBKDF2", false, ["deriveKey"]);
+  return crypto.subtle.deriveKey(
+    { name: "PBKDF2", salt, iterations, hash: "SHA-256" },
+    material,
+    { name: "AES-GCM", length: 256 },
+    true, // exported into session storage only, so a restarted worker stays unlocked
+    ["encrypt", "decrypt"]
+  );
+}
+
+async function seal(key: CryptoKey, text: string): Promise<Sealed> {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const data = new Uint8Array(await crypto.subtle.encrypt({ name: "AES-GCM", iv }, key, new TextEncoder().encode(text)));
+  return { iv: toBase64(iv), data: toBase64(data) };
+}
+
+// null when the key is wrong (GCM authentication fails) or the data is damaged
+async function open(key: CryptoKey, sealed: Sealed): Promise<string | null> {
+  try {
+    const plain = await crypto.subtle.decrypt({ name: "AES-GCM", iv: fromBase64(sealed.iv) }, key, fromBase64(sealed.data));
+    return new TextDecoder().decode(plain);
+  } catch (_) {
+    return null;
+  }
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let s = "";
+  for (let i = 0; i < bytes.length; i++) s += String.fromCharCode(bytes[i]);
+  return btoa(s);
+}
+
+function fromBase64(b64: string): Uint8Array<ArrayBuffer> {
+  const s = atob(b64);
+  const out = new Uint8Array(s.length);
+  for (let i = 0; i < s.length; i++) out[i] = s.charCodeAt(i);
+  return out;
+}
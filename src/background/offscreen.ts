@@ -1,5 +1,133 @@
-// Placeholder for MV3 offscreen document setup (e.g., for TTS/STT if needed)
+// MV3 offscreen document: hosts work the service worker can't do itself:
+// on-device OCR via the bundled Tesseract build (vendor/tesseract), and
+// speech recognition for the panel's push-to-talk button.
+declare const Tesseract: typeof import("tesseract.js");
+
+export type OcrWord = {
+  text: string;
+  confidence: number;
+  line: number; // words sharing a line index sit on the same text line
+  box: { x: number; y: number; w: number; h: number }; // image pixels
+};
+
+const VENDOR = "vendor/tesseract/";
+let ocrWorker: Promise<Tesseract.Worker> | null = null;
+
+function getOcrWorker(): Promise<Tesseract.Worker> {
+  if (!ocrWorker) {
+    ocrWorker = Tesseract.createWorker("eng", 1 /* LSTM only */, {
+      workerPath: chrome.runtime.getURL(`${VENDOR}worker.min.js`),
+      corePath: chrome.runtime.getURL(VENDOR),
+      langPath: chrome.runtime.getURL(`${VENDOR}lang`),
+      workerBlobURL: false, // extension CSP forbids blob: workers
+      cacheMethod: "none",
+      gzip: true
+    });
+    ocrWorker.catch(() => { ocrWorker = null; });
+  }
+  return ocrWorker;
+}
+
+async function runOcr(dataUrl: string) {
+  const worker = await getOcrWorker();
+  const { data } = await worker.recognize(dataUrl, {}, { text: false, blocks: true });
+  const words: OcrWord[] = [];
+  (data.lines || []).forEach((line, lineIdx) => {
+    for (const w of line.words || []) {
+      const text = (w.text || "").trim();
+      if (!text) continue;
+      const { x0, y0, x1, y1 } = w.bbox;
+      words.push({ text, confidence: w.confidence, line: lineIdx, box: { x: x0, y: y0, w: x1 - x0, h: y1 - y0 } });
+    }
+  });
+  const size = await imageSize(dataUrl);
+  return { words, width: size.width, height: size.height };
+}
+
+function imageSize(dataUrl: string): Promise<{ width: number; height: number }> {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve({ width: img.naturalWidth, height: img.naturalHeight });
+    img.onerror = () => reject(new Error("Could not decode capture"));
+    img.src = dataUrl;
+  });
+}
+
+// Chrome ships the Web Speech API prefixed and TypeScript's DOM lib no longer declares it
+type Recognition = {
+  lang: string;
+  continuous: boolean;
+  interimResults: boolean;
+  onresult: ((e: { resultIndex: number; results: SpeechRecognitionResultList }) => void) | null;
+  onerror: ((e: { error: string }) => void) | null;
+  onend: (() => void) | null;
+  start(): void;
+  stop(): void;
+  abort(): void;
+};
+
+let recognition: Recognition | null = null;
+
+// Events go back to the worker, which relays them to the tab that is listening
+function speechEvent(event: { type: "interim" | "end" | "error"; text?: string; error?: string }) {
+  chrome.runtime.sendMessage({ kind: "SPEECH_EVENT", ...event }).catch(() => { /* worker restarting */ });
+}
+
+function startSpeech(lang: string): { ok: boolean; error?: string } {
+  const Ctor = (self as any).webkitSpeechRecognition || (self as any).SpeechRecognition;
+  if (!Ctor) return { ok: false, error: "Speech recognition is not available in this browser" };
+  recognition?.abort();
+  const rec: Recognition = new Ctor();
+  rec.lang = lang || navigator.language;
+  rec.continuous = true; // keep listening while the button is held
+  rec.interimResults = true;
+  let final = "";
+  rec.onresult = (e) => {
+    let interim = "";
+    for (let i = e.resultIndex; i < e.results.length; i++) {
+      const r = e.results[i];
+      if (r.isFinal) final += r[0].transcript;
+      else interim += r[0].transcript;
+    }
+    speechEvent({ type: "interim", text: (final + interim).trim() });
+  };
+  rec.onerror = (e) => {
+    if (recognition !== rec) return;
+    // "no-speech" and "aborted" just end the turn; anything else is worth showing
+    if (e.error !== "no-speech" && e.error !== "aborted") speechEvent({ type: "error", error: e.error });
+  };
+  rec.onend = () => {
+    if (recognition !== rec) return; // replaced by a newer start; that one reports
+    recognition = null;
+    speechEvent({ type: "end", text: final.trim() });
+  };
+  recognition = rec;
+  rec.start();
+  return { ok: true };
+}
+
 export function initOffscreen() {
-  // In future, create offscreen document as needed.
+  chrome.runtime.onMessage.addListener((msg: any, _sender, sendResponse) => {
+    if (msg?.target !== "offscreen") return;
+    if (msg.kind === "OCR_RUN") {
+      runOcr(msg.dataUrl)
+        .then((res) => sendResponse({ ok: true, ...res }))
+        .catch((e: any) => sendResponse({ ok: false, error: String(e?.message || e) }));
+      return true; // async sendResponse
+    }
+    if (msg.kind === "SPEECH_START") {
+      try {
+        sendResponse(startSpeech(msg.lang || ""));
+      } catch (e: any) {
+        sendResponse({ ok: false, error: String(e?.message || e) });
+      }
+      return;
+    }
+    if (msg.kind === "SPEECH_STOP") {
+      recognition?.stop(); // delivers the last results, then "end"
+      sendResponse(true);
+    }
+  });
 }
 
+initOffscreen();
@@ -0,0 +1,65 @@
+// Read-only page tools: the model may call these to look at the page before it
+// answers. The worker relays each call to the tab's panel (PAGE_TOOL), which
+// runs it against the live DOM and returns a summary for the trace plus data
+// for the model.
+import type { ToolCall, ToolSpec } from "./providers.js";
+import { ROLES, validateSchema, type JsonSchema } from "./actionTools.js";
+
+const REF: JsonSchema = { type: "string", pattern: "^e\\d+$" };
+
+export const PAGE_TOOLS: ToolSpec[] = [
+  {
+    name: "find_elements",
+    description: "Search the page for elements by visible text or label (typos and synonyms are tolerated). Returns refs usable as action targets, with role, name and state.",
+    parameters: {
+      type: "object",
+      properties: {
+        query: { type: "string", maxLength: 200 },
+        role: { type: "string", enum: ROLES },
+        limit: { type: "integer", description: "At most 20; default 8" }
+      },
+      required: ["query"],
+      additionalProperties: false
+    }
+  },
+  {
+    name: "read_text",
+    description: "Read the visible text of one part of the page: the element with a ref, the section under a heading, or the main content when neither is given.",
+    parameters: {
+      type: "object",
+      properties: {
+        ref: { ...REF, description: "Ref from context.snapshot or find_elements" },
+        heading: { type: "string", maxLength: 200, description: "Heading text of the section to read" },
+        max_chars: { type: "integer", description: "At most 4000; default 1500" }
+      },
+      additionalProperties: false
+    }
+  },
+  {
+    name: "list_form_fields",
+    description: "List the visible form fields with label, kind, current value (secrets masked), required and invalid flags, optionally only inside the element with a ref.",
+    parameters: {
+      type: "object",
+      properties: { ref: REF },
+      additionalProperties: false
+    }
+  },
+  {
+    name: "get_page_info",
+    description: "Current URL, page title, main heading and any text the user has selected.",
+    parameters: { type: "object", properties: {}, additionalProperties: false }
+  }
+];
+
+export function isPageTool(name: string): boolean {
+  return PAGE_TOOLS.some((t) => t.name === name);
+}
+
+// null when the call may run, else why not
+export function checkPageToolCall(call: ToolCall): string | null {
+  const tool = PAGE_TOOLS.find((t) => t.name === call.name);
+  if (!tool) return `unknown tool "${call.name}"`;
+  if (call.error) return call.error;
+  const errors = validateSchema(call.arguments, tool.parameters as JsonSchema);
+  return errors.length ? errors.slice(0, 3).join("; ") : null;
+}
@@ -0,0 +1,241 @@
+// Site profiles: per-site prompt, UI vocabulary and shortcuts, matched by hostname
+
+// A request answered in the panel without calling the model
+export type LocalIntent = {
+  match: string;      // case-insensitive regex over the question; $1 is the first capture
+  steps: string[];    // reply, numbered "1) ..."
+  highlight?: string; // icon key to highlight afterwards (e.g. "search")
+};
+
+export type SiteProfile = {
+  id: string;
+  name: string;
+  hosts: string[];                      // "github.com", "*.console.aws.amazon.com" ("*." also matches the bare domain)
+  prompt: string;                       // instructions; the page-tool guidance is appended
+  icons: Record<string, string[]>;      // extra aria-label/title words per icon key, on top of the generic ones
+  selectors: Record<string, string[]>;  // preferred CSS selectors per icon key, tried before labels
+  panel: { title: string; placeholder: string };
+  intents: LocalIntent[];
+};
+
+const GENERIC: SiteProfile = {
+  id: "generic",
+  name: "Other sites",
+  hosts: [],
+  prompt: [
+    "You are a helpful web assistant.",
+    "Respond concisely."
+  ].join("\n"),
+  icons: {},
+  selectors: {},
+  panel: { title: "Web Assistant", placeholder: "Ask about this page, or say 'highlight Sign in'..." },
+  intents: []
+};
+
+export const BUILT_IN_PROFILES: SiteProfile[] = [
+  {
+    id: "aws",
+    name: "AWS Console",
+    hosts: ["*.console.aws.amazon.com", "*.amazonaws.cn"],
+    prompt: [
+      "You are an AWS learning coach.",
+      "Be concise with steps and gotchas.",
+      "Avoid hallucinating selectors; prefer visible text/labels."
+    ].join("\n"),
+    icons: {
+      services: ["services", "service menu"],
+      region: ["region", "regions"],
+      account: ["account", "account menu"],
+      cloudshell: ["cloudshell"],
+      notifications: ["notifications"],
+      help: ["help", "support"]
+    },
+    selectors: {
+      search: ['input[data-testid="awsc-concierge-input"]', '#awsc-concierge-input'],
+      services: ['[data-testid="awsc-nav-services-menu-button"]'],
+      region: ['[data-testid="awsc-nav-regions-menu-button"]']
+    },
+    panel: { title: "AWS Learning Assistant", placeholder: "Ask about AWS, or say 'highlight Create role'..." },
+    intents: [
+      {
+        match: "^(?:open|go\\s+to|navigate\\s+to)\\s+(?:the\\s+)?(.+?)(?:\\s+console)?$",
+        steps: [
+          "Click the search bar at the top (or press Alt+S).",
+          "Type: $1",
+          "Pick \"$1\" under Services."
+        ],
+        highlight: "search"
+      }
+    ]
+  },
+  {
+    id: "azure",
+    name: "Azure Portal",
+    hosts: ["portal.azure.com", "*.portal.azure.com", "portal.azure.us"],
+    prompt: [
+      "You are a Microsoft Azure Portal coach.",
+      "Explain resources, blades and settings in short steps; mention cost or security gotchas.",
+      "Refer to controls by their visible names (blade titles, menu items, buttons)."
+    ].join("\n"),
+    icons: {
+      search: ["search resources, services, and docs"],
+      cloudshell: ["cloud shell"],
+      notifications: ["notifications"],
+      directory: ["directories + subscriptions", "directories"],
+      menu: ["show portal menu", "portal menu"]
+    },
+    selectors: {
+      search: ['input[aria-label*="Search resources" i]']
+    },
+    panel: { title: "Azure Portal Assistant", placeholder: "Ask about Azure, or say 'highlight Create a resource'..." },
+    intents: [
+      {
+        match: "^(?:open|go\\s+to|navigate\\s+to)\\s+(?:the\\s+)?(.+)$",
+        steps: [
+          "Click the search bar at the top of the portal.",
+          "Type: $1",
+          "Pick \"$1\" under Services."
+        ],
+        highlight: "search"
+      }
+    ]
+  },
+  {
+    id: "gcp",
+    name: "Google Cloud Console",
+    hosts: ["console.cloud.google.com"],
+    prompt: [
+      "You are a Google Cloud console coach.",
+      "Keep answers to short steps; say which project and region things apply to.",
+      "Refer to controls by their visible names."
+    ].join("\n"),
+    icons: {
+      project: ["project picker", "select a project"],
+      menu: ["navigation menu", "main menu"],
+      cloudshell: ["activate cloud shell"],
+      notifications: ["notifications"]
+    },
+    selectors: {
+      search: ['input[aria-label*="Search" i]']
+    },
+    panel: { title: "Google Cloud Assistant", placeholder: "Ask about Google Cloud, or say 'highlight Create bucket'..." },
+    intents: []
+  },
+  {
+    id: "google",
+    name: "Google Search",
+    hosts: ["google.*", "*.google.*"],
+    prompt: [
+      "You are a Google Search assistant.",
+      "Summarize top results, suggest query refinements and site: filters.",
+      "If the user asks 'what are the steps to find <thing>' or similar, answer with concise numbered steps (1-4).",
+      "When possible, also highlight relevant controls, e.g. the search box and a link matching the query.",
+      "Targets should use visible link text such as result titles, tools (e.g., 'Tools', 'Images'), or filters.",
+      "Do not fabricate DOM selectors."
+    ].join("\n"),
+    icons: {
+      mic: ["search by voice"],
+      camera: ["search by image", "google lens"],
+      apps: ["google apps"]
+    },
+    selectors: {
+      search: ['input[name="q"]', 'textarea[name="q"]']
+    },
+    panel: { title: "Search Assistant", placeholder: "Ask about these results, or say 'highlight Images'..." },
+    intents: [
+      {
+        match: "(?:steps\\s+to\\s+find|how\\s+to\\s+find|find\\s+steps\\s+for)\\s+(?:the\\s+)?(.+)",
+        steps: [
+          "Click the search box.",
+          "Type: $1",
+          "Press Enter to search.",
+          "Click the result that matches \"$1\" (e.g., the official site)."
+        ],
+        highlight: "search"
+      }
+    ]
+  },
+  {
+    id: "github",
+    name: "GitHub",
+    hosts: ["github.com", "*.github.com"],
+    prompt: [
+      "You are a GitHub assistant.",
+      "Help with repositories, pull requests, issues, Actions and settings in short steps.",
+      "Refer to tabs and buttons by their visible names (Code, Issues, Pull requests, Settings)."
+    ].join("\n"),
+    icons: {
+      search: ["search or jump to"],
+      notifications: ["notifications", "inbox"],
+      create: ["create new", "create something new"],
+      menu: ["open global navigation menu"]
+    },
+    selectors: {
+      search: ['button[data-target="qbsearch-input.inputButton"]', '#query-builder-test']
+    },
+    panel: { title: "GitHub Assistant", placeholder: "Ask about this repo, or say 'highlight Pull requests'..." },
+    intents: []
+  },
+  GENERIC
+];
+
+export function hostMatches(pattern: string, host: string): boolean {
+  const p = pattern.trim().toLowerCase();
+  if (!p) return false;
+  const wildSub = p.startsWith("*.");
+  const body = (wildSub ? p.slice(2) : p).split("*").map((s) => s.replace(/[.+?^${}()|[\]\\]/g, "\\$&")).join(".*");
+  return new RegExp(`^${wildSub ? "(?:.*\\.)?" : ""}${body}$`).test(host.toLowerCase());
+}
+
+// User profiles come first and replace a built-in with the same id
+export function allProfiles(user: SiteProfile[]): SiteProfile[] {
+  const ids = new Set(user.map((p) => p.id));
+  return [...user, ...BUILT_IN_PROFILES.filter((p) => !ids.has(p.id))];
+}
+
+export function resolveProfile(url: string, user: SiteProfile[]): SiteProfile {
+  let host = "";
+  try { host = new URL(url).hostname; } catch (_) { /* not a web page */ }
+  const list = allProfiles(user);
+  return list.find((p) => p.hosts.some((h) => hostMatches(h, host)))
+    || list.find((p) => p.id === GENERIC.id)
+    || GENERIC;
+}
+
+// Fills gaps so a hand-written or imported profile is always usable; null if hopeless
+export function normalizeProfile(raw: any): SiteProfile | null {
+  if (!raw || typeof raw !== "object") return null;
+  const id = typeof raw.id === "string" ? raw.id.trim() : "";
+  if (!/^[a-z0-9][a-z0-9_-]*$/i.test(id)) return null;
+  const base = BUILT_IN_PROFILES.find((p) => p.id === id) || GENERIC;
+  const strings = (v: any) => Array.isArray(v) ? v.filter((s) => typeof s === "string" && s.trim()).map((s: string) => s.trim()) : null;
+  const lists = (v: any, fallback: Record<string, string[]>) => {
+    if (!v || typeof v !== "object") return fallback;
+    const out: Record<string, string[]> = {};
+    for (const [k, list] of Object.entries(v)) {
+      const s = strings(list);
+      if (s?.length) out[k.toLowerCase()] = s;
+    }
+    return out;
+  };
+  const intents: LocalIntent[] = [];
+  for (const it of Array.isArray(raw.intents) ? raw.intents : base.intents) {
+    const steps = strings(it?.steps);
+    if (typeof it?.match !== "string" || !steps?.length) continue;
+    try { new RegExp(it.match, "i"); } catch (_) { continue; } // skip invalid patterns
+    intents.push({ match: it.match, steps, ...(typeof it.highlight === "string" ? { highlight: it.highlight } : {}) });
+  }
+  return {
+    id,
+    name: typeof raw.name === "string" && raw.name.trim() ? raw.name.trim() : (base === GENERIC ? id : base.name),
+    hosts: strings(raw.hosts) ?? base.hosts,
+    prompt: typeof raw.prompt === "string" && raw.prompt.trim() ? raw.prompt : base.prompt,
+    icons: lists(raw.icons, base.icons),
+    selectors: lists(raw.selectors, base.selectors),
+    panel: {
+      title: typeof raw.panel?.title === "string" && raw.panel.title.trim() ? raw.panel.title : base.panel.title,
+      placeholder: typeof raw.panel?.placeholder === "string" ? raw.panel.placeholder : base.panel.placeholder
+    },
+    intents
+  };
+}
@@ -0,0 +1,336 @@
+// LLM provider adapters: endpoint, auth, request body and stream format per backend
+
+export type ProviderId = "openai" | "openai-compatible" | "ollama" | "anthropic";
+
+// "tool" turns carry a tool result back to the model during a tool loop
+export type ChatMessage = {
+  role: "system" | "user" | "assistant" | "tool";
+  content: string;
+  toolCalls?: ToolCall[]; // assistant turn that called tools
+  toolCallId?: string;    // tool turn: the call it answers
+};
+
+// Non-secret selection persisted alongside (but separate from) the keys
+export type ProviderConfig = { id: ProviderId; baseUrl?: string; model?: string };
+
+// Token counts as reported by the backend at the end of a stream
+export type Usage = { inputTokens: number; outputTokens: number };
+
+// A function the model may call; parameters is a JSON Schema object
+export type ToolSpec = { name: string; description: string; parameters: Record<string, unknown> };
+
+// One complete call from the stream; arguments is parsed JSON (error set when it wasn't)
+export type ToolCall = { id: string; name: string; arguments: unknown; error?: string };
+
+// Side channels of a stream besides its text deltas
+export type StreamSink = {
+  onUsage?: (usage: Usage) => void;
+  onToolCall?: (call: ToolCall) => void;
+};
+
+export type ProviderRequest = {
+  messages: ChatMessage[];
+  model: string;
+  apiKey: string | null;
+  baseUrl: string;
+  tools?: ToolSpec[];
+};
+
+export interface Provider {
+  id: ProviderId;
+  label: string;
+  defaultBaseUrl: string;
+  defaultModel: string;
+  needsKey: boolean; // false when the backend works without auth (local models, open gateways)
+  summaryModel?: string; // cheaper model for housekeeping calls (history summaries)
+  buildRequest(req: ProviderRequest): { url: string; init: RequestInit };
+  // A cheap authenticated call (no tokens spent) to check a key when it is set
+  buildKeyCheck?(baseUrl: string, apiKey: string): { url: string; init: RequestInit };
+  parseStream(stream: ReadableStream<Uint8Array>, sink?: StreamSink): AsyncGenerator<string>;
+}
+
+const openai: Provider = {
+  id: "openai",
+  label: "OpenAI",
+  defaultBaseUrl: "https://api.openai.com/v1",
+  defaultModel: "gpt-4o-mini",
+  needsKey: true,
+  summaryModel: "gpt-4o-mini",
+  buildRequest: (req) => openAIChatRequest(req, true),
+  buildKeyCheck: openAIKeyCheck,
+  parseStream: parseOpenAIStream
+};
+
+const openaiCompatible: Provider = {
+  id: "openai-compatible",
+  label: "OpenAI-compatible gateway",
+  defaultBaseUrl: "http://localhost:8000/v1",
+  defaultModel: "gpt-4o-mini",
+  needsKey: false,
+  buildRequest: (req) => openAIChatRequest(req),
+  buildKeyCheck: openAIKeyCheck,
+  parseStream: parseOpenAIStream
+};
+
+const ollama: Provider = {
+  id: "ollama",
+  label: "Ollama (local)",
+  defaultBaseUrl: "http://localhost:11434",
+  defaultModel: "llama3.1",
+  needsKey: false,
+  buildRequest({ messages, model, baseUrl, tools }) {
+    const body: Record<string, unknown> = { model, messages: messages.map(ollamaMessage), stream: true };
+    if (tools?.length) body.tools = tools.map(openAITool);
+    return {
+      url: `${trimSlash(baseUrl)}/api/chat`,
+      init: {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body)
+      }
+    };
+  },
+  async *parseStream(stream, sink) {
+    // Ollama streams newline-delimited JSON objects rather than SSE;
+    // tool calls arrive whole, with arguments already an object
+    let calls = 0;
+    for await (const line of readLines(stream)) {
+      try {
+        const obj = JSON.parse(line);
+        const token = obj?.message?.content;
+        if (token) yield token as string;
+        for (const tc of obj?.message?.tool_calls || []) {
+          if (tc?.function?.name) sink?.onToolCall?.({ id: `call_${++calls}`, name: tc.function.name, arguments: tc.function.arguments ?? {} });
+        }
+        if (obj?.done) {
+          sink?.onUsage?.({ inputTokens: obj.prompt_eval_count || 0, outputTokens: obj.eval_count || 0 });
+          return;
+        }
+      } catch (_) { /* ignore bad JSON lines */ }
+    }
+  }
+};
+
+const anthropic: Provider = {
+  id: "anthropic",
+  label: "Anthropic (messages API)",
+  defaultBaseUrl: "https://api.anthropic.com/v1",
+  defaultModel: "claude-3-5-haiku-latest",
+  needsKey: true,
+  summaryModel: "claude-3-5-haiku-latest",
+  buildRequest({ messages, model, apiKey, baseUrl, tools }) {
+    // System text is a top-level field; the turns must alternate user/assistant,
+    // tool calls are tool_use blocks and their results tool_result blocks in a user turn
+    const system = messages.filter((m) => m.role === "system").map((m) => m.content).join("\n\n");
+    const turns: Array<{ role: "user" | "assistant"; content: any[] }> = [];
+    for (const m of messages) {
+      if (m.role === "system") continue;
+      const role = m.role === "assistant" ? "assistant" : "user";
+      const blocks: any[] = m.role === "tool"
+        ? [{ type: "tool_result", tool_use_id: m.toolCallId, content: m.content }]
+        : [
+          ...(m.content ? [{ type: "text", text: m.content }] : []),
+          ...(m.toolCalls || []).map((c) => ({ type: "tool_use", id: c.id, name: c.name, input: c.arguments ?? {} }))
+        ];
+      if (!blocks.length) continue;
+      const last = turns[turns.length - 1];
+      if (last && last.role === role) last.content.push(...blocks);
+      else turns.push({ role, content: blocks });
+    }
+    if (!turns.length || turns[0].role !== "user") turns.unshift({ role: "user", content: [{ type: "text", text: "(continue)" }] });
+    const headers: Record<string, string> = {
+      "Content-Type": "application/json",
+      "anthropic-version": "2023-06-01",
+      "anthropic-dangerous-direct-browser-access": "true"
+    };
+    if (apiKey) headers["x-api-key"] = apiKey;
+    const body: Record<string, unknown> = { model, system, messages: turns, max_tokens: 1024, stream: true };
+    if (tools?.length) body.tools = tools.map((t) => ({ name: t.name, description: t.description, input_schema: t.parameters }));
+    return {
+      url: `${trimSlash(baseUrl)}/messages`,
+      init: {
+        method: "POST",
+        headers,
+        body: JSON.stringify(body)
+      }
+    };
+  },
+  buildKeyCheck(baseUrl, apiKey) {
+    return {
+      url: `${trimSlash(baseUrl)}/models?limit=1`,
+      init: {
+        method: "GET",
+        headers: { "x-api-key": apiKey, "anthropic-version": "2023-06-01", "anthropic-dangerous-direct-browser-access": "true" }
+      }
+    };
+  },
+  async *parseStream(stream, sink) {
+    // input tokens arrive in message_start, the output count in message_delta;
+    // a tool_use block streams its input as JSON fragments until the block stops
+    let inputTokens = 0;
+    const blocks = new Map<number, { id: string; name: string; json: string }>();
+    for await (const { event, data } of readSSE(stream)) {
+      if (event === "message_stop") return;
+      try {
+        const obj = JSON.parse(data);
+        if (obj?.type === "message_start") inputTokens = obj.message?.usage?.input_tokens || 0;
+        if (obj?.type === "message_delta" && obj.usage) sink?.onUsage?.({ inputTokens, outputTokens: obj.usage.output_tokens || 0 });
+        if (obj?.type === "content_block_start" && obj.content_block?.type === "tool_use") {
+          blocks.set(obj.index, { id: obj.content_block.id, name: obj.content_block.name, json: "" });
+        }
+        if (obj?.type === "content_block_delta" && obj.delta?.type === "input_json_delta") {
+          const block = blocks.get(obj.index);
+          if (block) block.json += obj.delta.partial_json || "";
+        }
+        if (obj?.type === "content_block_stop" && blocks.has(obj.index)) {
+          const block = blocks.get(obj.index)!;
+          blocks.delete(obj.index);
+          sink?.onToolCall?.(toolCall(block.id, block.name, block.json));
+        }
+        if (obj?.type === "content_block_delta" && obj.delta?.text) yield obj.delta.text as string;
+        if (obj?.type === "error") throw new Error(obj.error?.message || "Anthropic stream error");
+      } catch (e: any) {
+        if (e instanceof SyntaxError) continue; // ignore bad JSON lines
+        throw e;
+      }
+    }
+  }
+};
+
+const PROVIDERS: Record<ProviderId, Provider> = {
+  "openai": openai,
+  "openai-compatible": openaiCompatible,
+  "ollama": ollama,
+  "anthropic": anthropic
+};
+
+export function getProvider(id: string | undefined | null): Provider {
+  return PROVIDERS[id as ProviderId] || openai;
+}
+
+export function listProviders(): Provider[] {
+  return Object.values(PROVIDERS);
+}
+
+function openAIKeyCheck(baseUrl: string, apiKey: string) {
+  return { url: `${trimSlash(baseUrl)}/models`, init: { method: "GET", headers: { Authorization: `Bearer ${apiKey}` } } };
+}
+
+// Gateways may reject stream_options, so only ask for usage where it is known to work
+function openAIChatRequest({ messages, model, apiKey, baseUrl, tools }: ProviderRequest, includeUsage = false) {
+  const headers: Record<string, string> = { "Content-Type": "application/json" };
+  if (apiKey) headers.Authorization = `Bearer ${apiKey}`;
+  const body: Record<string, unknown> = { model, messages: messages.map(openAIMessage), stream: true };
+  if (includeUsage) body.stream_options = { include_usage: true };
+  if (tools?.length) body.tools = tools.map(openAITool);
+  return {
+    url: `${trimSlash(baseUrl)}/chat/completions`,
+    init: {
+      method: "POST",
+      headers,
+      body: JSON.stringify(body)
+    }
+  };
+}
+
+function openAIMessage(m: ChatMessage) {
+  if (m.role === "tool") return { role: "tool", tool_call_id: m.toolCallId, content: m.content };
+  if (!m.toolCalls?.length) return { role: m.role, content: m.content };
+  return {
+    role: m.role,
+    content: m.content || null,
+    tool_calls: m.toolCalls.map((c) => ({ id: c.id, type: "function", function: { name: c.name, arguments: JSON.stringify(c.arguments ?? {}) } }))
+  };
+}
+
+// Ollama takes arguments as objects and matches results to calls by order
+function ollamaMessage(m: ChatMessage) {
+  if (m.role === "tool") return { role: "tool", content: m.content };
+  if (!m.toolCalls?.length) return { role: m.role, content: m.content };
+  return { role: m.role, content: m.content, tool_calls: m.toolCalls.map((c) => ({ function: { name: c.name, arguments: c.arguments ?? {} } })) };
+}
+
+function openAITool(t: ToolSpec) {
+  return { type: "function", function: { name: t.name, description: t.description, parameters: t.parameters } };
+}
+
+// Tool calls stream as fragments keyed by index; each is complete once the choice finishes
+async function* parseOpenAIStream(stream: ReadableStream<Uint8Array>, sink?: StreamSink) {
+  const pending = new Map<number, { id: string; name: string; json: string }>();
+  const flush = () => {
+    for (const c of pending.values()) sink?.onToolCall?.(toolCall(c.id, c.name, c.json));
+    pending.clear();
+  };
+  for await (const { data } of readSSE(stream)) {
+    if (data === "[DONE]") break;
+    try {
+      const obj = JSON.parse(data);
+      if (obj?.usage) sink?.onUsage?.({ inputTokens: obj.usage.prompt_tokens || 0, outputTokens: obj.usage.completion_tokens || 0 });
+      const choice = obj?.choices?.[0];
+      for (const tc of choice?.delta?.tool_calls || []) {
+        const c = pending.get(tc.index) || { id: "", name: "", json: "" };
+        if (tc.id) c.id = tc.id;
+        if (tc.function?.name) c.name += tc.function.name;
+        if (tc.function?.arguments) c.json += tc.function.arguments;
+        pending.set(tc.index, c);
+      }
+      if (choice?.finish_reason) flush();
+      const token = choice?.delta?.content;
+      if (token) yield token as string;
+    } catch (_) {
+      // ignore bad JSON lines
+    }
+  }
+  // Gateways that end without a finish_reason still completed their calls
+  flush();
+}
+
+function toolCall(id: string, name: string, json: string): ToolCall {
+  try {
+    return { id, name, arguments: json.trim() ? JSON.parse(json) : {} };
+  } catch (_) {
+    return { id, name, arguments: null, error: "arguments are not valid JSON" };
+  }
+}
+
+// Yields one { event, data } per SSE record; multi-line data is joined with "\n"
+async function* readSSE(stream: ReadableStream<Uint8Array>) {
+  let event = "";
+  let data: string[] = [];
+  for await (const raw of readLines(stream, true)) {
+    const line = raw.replace(/\r$/, "");
+    if (!line) {
+      if (data.length) yield { event, data: data.join("\n") };
+      event = "";
+      data = [];
+      continue;
+    }
+    if (line.startsWith("event:")) event = line.slice(6).trim();
+    else if (line.startsWith("data:")) data.push(line.slice(5).trim());
+  }
+  if (data.length) yield { event, data: data.join("\n") };
+}
+
+async function* readLines(stream: ReadableStream<Uint8Array>, keepEmpty = false) {
+  const reader = stream.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+    let idx;
+    while ((idx = buffer.indexOf("\n")) >= 0) {
+      const line = buffer.slice(0, idx);
+      buffer = buffer.slice(idx + 1);
+      if (keepEmpty || line.trim()) yield line;
+    }
+  }
+  // flush
+  buffer += decoder.decode();
+  if (buffer.trim()) yield buffer;
+}
+
+function trimSlash(url: string) {
+  return url.replace(/\/+$/, "");
+}
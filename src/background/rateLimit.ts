@@ -0,0 +1,176 @@
+// Per-model request/token budgets, reconciled with what the provider reports
+import type { Usage } from "./providers.js";
+
+const WINDOW_MS = 60_000;
+let defaultRpm = 30;      // used until the server tells us its limits (options page)
+let defaultTpm = 40_000;
+
+type Limit = { max: number; remaining: number; resetAt: number }; // resetAt 0: window not started
+type Budget = {
+  requests: Limit;
+  tokens: Limit;
+  source: "estimate" | "server"; // whether the figures came from response headers
+  lastUsage: Usage | null;
+};
+
+export type Reservation = { key: string; tokens: number };
+
+const budgets = new Map<string, Budget>(); // by "<provider>:<model>"
+
+export function budgetKey(providerId: string, model: string): string {
+  return `${providerId}:${model}`;
+}
+
+function budgetFor(key: string): Budget {
+  let b = budgets.get(key);
+  if (!b) {
+    b = {
+      requests: { max: defaultRpm, remaining: defaultRpm, resetAt: 0 },
+      tokens: { max: defaultTpm, remaining: defaultTpm, resetAt: 0 },
+      source: "estimate",
+      lastUsage: null
+    };
+    budgets.set(key, b);
+  }
+  return b;
+}
+
+// New assumed limits; budgets the server already described keep its figures
+export function setDefaultLimits(rpm: number, tpm: number) {
+  defaultRpm = rpm;
+  defaultTpm = tpm;
+  for (const b of budgets.values()) {
+    if (b.source === "server") continue;
+    b.requests.remaining += rpm - b.requests.max;
+    b.requests.max = rpm;
+    b.tokens.remaining += tpm - b.tokens.max;
+    b.tokens.max = tpm;
+  }
+}
+
+function refill(l: Limit, now: number) {
+  if (l.resetAt && now >= l.resetAt) {
+    l.remaining = l.max;
+    l.resetAt = 0;
+  }
+}
+
+// Rolling window: starts with the first request after a refill
+function debit(l: Limit, n: number, now: number) {
+  if (!l.resetAt) l.resetAt = now + WINDOW_MS;
+  l.remaining -= n;
+}
+
+// Reserve one request and an estimate of its tokens. Returns 0 when granted,
+// otherwise how long to wait before asking again.
+export function tryAcquire(key: string, tokens: number): number {
+  const b = budgetFor(key);
+  const now = Date.now();
+  refill(b.requests, now);
+  refill(b.tokens, now);
+  // A prompt larger than the whole budget can only go on a full bucket
+  const need = Math.min(Math.max(1, tokens), b.tokens.max);
+  const waits: number[] = [];
+  if (b.requests.remaining < 1) waits.push(b.requests.resetAt - now);
+  if (b.tokens.remaining < need) waits.push(b.tokens.resetAt - now);
+  if (waits.length) return Math.max(200, Math.max(...waits) + 100);
+  debit(b.requests, 1, now);
+  debit(b.tokens, need, now);
+  return 0;
+}
+
+// Headers are authoritative when present; otherwise swap the reservation for
+// the usage the stream reported.
+export function reconcile(res: Reservation, headers: Headers | null, usage: Usage | null) {
+  const b = budgetFor(res.key);
+  const fromServer = headers ? applyHeaders(b, headers) : { requests: false, tokens: false };
+  if (usage) {
+    b.lastUsage = usage;
+    if (!fromServer.tokens) {
+      const actual = usage.inputTokens + usage.outputTokens;
+      b.tokens.remaining = Math.min(b.tokens.max, b.tokens.remaining + Math.min(res.tokens, b.tokens.max) - actual);
+    }
+  }
+}
+
+// For responses outside a reservation (429s)
+export function recordHeaders(key: string, headers: Headers) {
+  applyHeaders(budgetFor(key), headers);
+}
+
+// Plain-object copy for session storage, so budgets survive a worker restart
+export function exportBudgets(): Record<string, Budget> {
+  return Object.fromEntries(budgets);
+}
+
+export function importBudgets(saved: Record<string, Budget> | undefined) {
+  for (const [key, b] of Object.entries(saved || {})) {
+    if (b?.requests && b?.tokens) budgets.set(key, b);
+  }
+}
+
+export function budgetStatus(key: string) {
+  const b = budgetFor(key);
+  const now = Date.now();
+  refill(b.requests, now);
+  refill(b.tokens, now);
+  const resets = [b.requests.resetAt, b.tokens.resetAt].filter(Boolean);
+  return {
+    rpmRemaining: Math.max(0, b.requests.remaining),
+    rpmMax: b.requests.max,
+    tpmRemaining: Math.max(0, b.tokens.remaining),
+    tpmMax: b.tokens.max,
+    nextResetMs: resets.length ? Math.max(0, Math.min(...resets) - now) : 0,
+    source: b.source,
+    lastUsage: b.lastUsage
+  };
+}
+
+// OpenAI style: x-ratelimit-{limit,remaining,reset}-{requests,tokens}, reset as "6m0s"/"20ms".
+// Anthropic style: anthropic-ratelimit-{requests,tokens}-{limit,remaining,reset}, reset as RFC 3339.
+function applyHeaders(b: Budget, h: Headers): { requests: boolean; tokens: boolean } {
+  const now = Date.now();
+  const read = (kind: "requests" | "tokens") => {
+    const limit = num(h.get(`x-ratelimit-limit-${kind}`) ?? h.get(`anthropic-ratelimit-${kind}-limit`));
+    const remaining = num(h.get(`x-ratelimit-remaining-${kind}`) ?? h.get(`anthropic-ratelimit-${kind}-remaining`));
+    const reset = h.get(`x-ratelimit-reset-${kind}`) ?? h.get(`anthropic-ratelimit-${kind}-reset`);
+    if (remaining == null) return false;
+    const l = b[kind];
+    if (limit != null) l.max = limit;
+    l.remaining = remaining;
+    const resetIn = parseReset(reset, now);
+    l.resetAt = resetIn != null ? now + resetIn : now + WINDOW_MS;
+    return true;
+  };
+  const out = { requests: read("requests"), tokens: read("tokens") };
+  if (out.requests || out.tokens) b.source = "server";
+  // A 429 may carry only retry-after: hold both buckets until then
+  const retry = num(h.get("retry-after"));
+  if (retry != null) {
+    const until = now + retry * 1000;
+    for (const l of [b.requests, b.tokens]) {
+      l.remaining = Math.min(l.remaining, 0);
+      l.resetAt = Math.max(l.resetAt, until);
+    }
+  }
+  return out;
+}
+
+function num(v: string | null): number | null {
+  if (v == null || v === "") return null;
+  const n = Number(v);
+  return Number.isFinite(n) ? n : null;
+}
+
+function parseReset(v: string | null, now: number): number | null {
+  if (!v) return null;
+  if (/^\d{4}-\d{2}-\d{2}T/.test(v)) {
+    const at = Date.parse(v);
+    return Number.isNaN(at) ? null : Math.max(0, at - now);
+  }
+  const units: Record<string, number> = { h: 3_600_000, m: 60_000, s: 1000, ms: 1 };
+  const parts = [...v.matchAll(/(\d+(?:\.\d+)?)(ms|h|m|s)/g)];
+  if (parts.length) return parts.reduce((sum, p) => sum + parseFloat(p[1]) * units[p[2]], 0);
+  if (/^\d+(\.\d+)?$/.test(v)) return parseFloat(v) * 1000; // bare seconds
+  return null;
+}
@@ -0,0 +1,136 @@
+// Outbound redaction: account IDs, ARNs, access keys, emails, IPs and the
+// user's own patterns are swapped for placeholders like [ACCOUNT_ID_1] before
+// anything reaches the provider, and swapped back in what the model returns
+// (answer text, tool-call targets), so the user reads and the page matches the
+// real values. Placeholders are per tab and stable for its conversation.
+
+export type RedactionRule = { label: string; pattern: string; flags?: string };
+
+export type RedactionSettings = {
+  enabled: boolean;
+  off: string[];          // built-in detector labels the user turned off
+  rules: RedactionRule[]; // user rules, applied after the built-ins
+};
+
+// Order matters: an ARN contains an account ID and must be taken whole first
+export const BUILT_IN_DETECTORS: RedactionRule[] = [
+  { label: "ARN", pattern: "\\barn:aws[a-z-]*:[a-z0-9-]+:[a-z0-9-]*:(?:\\d{12})?:[^\\s\"'<>,;()\\[\\]{}]+" },
+  { label: "ACCESS_KEY", pattern: "\\b(?:AKIA|ASIA)[A-Z0-9]{16}\\b" },
+  { label: "EMAIL", pattern: "\\b[A-Za-z0-9._%+-]+@[A-Za-z0-9-]+(?:\\.[A-Za-z0-9-]+)*\\.[A-Za-z]{2,}\\b" },
+  { label: "IP", pattern: "\\b(?:(?:25[0-5]|2[0-4]\\d|1?\\d?\\d)\\.){3}(?:25[0-5]|2[0-4]\\d|1?\\d?\\d)\\b" },
+  { label: "ACCOUNT_ID", pattern: "\\b(?:\\d{12}|\\d{4}-\\d{4}-\\d{4})\\b" }
+];
+
+export const RULE_LABEL = /^[A-Z][A-Z0-9_]{0,23}$/;
+const PLACEHOLDER = /\[([A-Z][A-Z0-9_]*)_(\d+)\]/g;
+const PLACEHOLDER_MAX = 32; // longest placeholder a stream chunk may end in the middle of
+
+type RedactionState = { byValue: Map<string, string>; byPlaceholder: Map<string, string>; next: Map<string, number> };
+const states = new Map<string, RedactionState>(); // by conversation key (tab), like the summaries
+
+export type Redaction = {
+  outbound<T>(value: T): T;     // strings anywhere inside are redacted
+  inbound<T>(value: T): T;      // placeholders anywhere inside are restored
+  restorer(): StreamRestorer;
+  counts(): Record<string, number>; // values replaced so far in this conversation, by label
+};
+export type StreamRestorer = { push(chunk: string): string; flush(): string };
+
+// Invalid patterns are dropped here; the options page reports them before saving
+export function compileRules(settings: RedactionSettings): Array<{ label: string; re: RegExp }> {
+  const out: Array<{ label: string; re: RegExp }> = [];
+  const rules = [...BUILT_IN_DETECTORS.filter((d) => !settings.off.includes(d.label)), ...settings.rules];
+  for (const r of rules) {
+    try {
+      out.push({ label: r.label, re: new RegExp(r.pattern, `${(r.flags || "").replace(/g/g, "")}g`) });
+    } catch (_) { /* skipped */ }
+  }
+  return out;
+}
+
+export function createRedaction(key: string, settings: RedactionSettings): Redaction {
+  if (!settings.enabled) {
+    return { outbound: (v) => v, inbound: (v) => v, restorer: () => ({ push: (c) => c, flush: () => "" }), counts: () => ({}) };
+  }
+  let state = states.get(key);
+  if (!state) {
+    state = { byValue: new Map(), byPlaceholder: new Map(), next: new Map() };
+    states.set(key, state);
+  }
+  const s = state;
+  const rules = compileRules(settings);
+
+  const placeholderFor = (label: string, value: string) => {
+    let p = s.byValue.get(value);
+    if (!p) {
+      const n = (s.next.get(label) || 0) + 1;
+      s.next.set(label, n);
+      p = `[${label}_${n}]`;
+      s.byValue.set(value, p);
+      s.byPlaceholder.set(p, value);
+    }
+    return p;
+  };
+  const redact = (text: string) => {
+    for (const { label, re } of rules) {
+      // Placeholders from earlier rules are left alone
+      text = outsidePlaceholders(text, (part) => part.replace(re, (m) => (m ? placeholderFor(label, m) : m)));
+    }
+    return text;
+  };
+  const restore = (text: string) => text.replace(PLACEHOLDER, (p) => s.byPlaceholder.get(p) ?? p);
+
+  return {
+    outbound: (value) => mapStrings(value, redact),
+    inbound: (value) => mapStrings(value, restore),
+    restorer: () => {
+      let pending = "";
+      return {
+        // Hold back a tail that could be the start of a placeholder
+        push(chunk) {
+          const text = pending + chunk;
+          const open = text.lastIndexOf("[");
+          const tail = open >= 0 ? text.slice(open) : "";
+          const partial = tail.length < PLACEHOLDER_MAX && /^\[[A-Z0-9_]*$/.test(tail);
+          pending = partial ? tail : "";
+          return restore(partial ? text.slice(0, open) : text);
+        },
+        flush() {
+          const rest = restore(pending);
+          pending = "";
+          return rest;
+        }
+      };
+    },
+    counts: () => {
+      const out: Record<string, number> = {};
+      for (const [label, n] of s.next) out[label] = n;
+      return out;
+    }
+  };
+}
+
+export function forgetRedaction(key: string) {
+  states.delete(key);
+}
+
+function outsidePlaceholders(text: string, fn: (part: string) => string): string {
+  let out = "";
+  let last = 0;
+  for (const m of text.matchAll(PLACEHOLDER)) {
+    out += fn(text.slice(last, m.index)) + m[0];
+    last = m.index! + m[0].length;
+  }
+  return out + fn(text.slice(last));
+}
+
+function mapStrings<T>(value: T, fn: (s: string) => string): T {
+  if (typeof value === "string") return fn(value) as T;
+  if (Array.isArray(value)) return value.map((v) => mapStrings(v, fn)) as T;
+  if (value && typeof value === "object") {
+    const out: Record<string, unknown> = {};
+    for (const [k, v] of Object.entries(value)) out[k] = mapStrings(v, fn);
+    return out as T;
+  }
+  return value;
+}
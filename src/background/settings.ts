@@ -0,0 +1,200 @@
+// Team-tunable settings: kept in chrome.storage.sync, edited on the options page
+import type { ProviderId } from "./providers.js";
+import { BUILT_IN_PROFILES, normalizeProfile, type SiteProfile } from "./profiles.js";
+import { BUILT_IN_DETECTORS, RULE_LABEL, type RedactionRule, type RedactionSettings } from "./redact.js";
+
+export type Settings = {
+  version: 2;
+  models: Partial<Record<ProviderId, string>>; // default model per provider; the popup can still override
+  minIntervalMs: number;                       // min gap between request starts
+  rpm: number;                                 // assumed limits until the provider reports its own
+  tpm: number;
+  maxToolSteps: number;                        // rounds of read-only page tools per answer; 0 turns them off
+  hotkey: string;                              // e.g. "Alt+J", "Ctrl+Shift+K"
+  autoLockMinutes: number;                     // lock saved keys after this long idle; 0 never
+  disabledSites: string[];                     // hosts where the panel stays closed (and its hotkey does nothing)
+  voice: VoiceSettings;
+  redaction: RedactionSettings;                // what is masked before prompts leave the browser
+  profiles: SiteProfile[];                     // user site profiles (override built-ins by id)
+};
+
+export type VoiceSettings = {
+  readAloud: boolean; // speak finished answers; the panel's speaker button toggles it per tab
+  voiceName: string;  // chrome.tts voice; "" for the system default
+  rate: number;       // 0.5–2, 1 is normal speed
+  lang: string;       // speech recognition language, e.g. "en-US"; "" follows the browser
+};
+
+export const SETTINGS_KEY = "SETTINGS";
+export const MAX_TOOL_STEPS = 8;
+export const MAX_AUTO_LOCK_MINUTES = 24 * 60;
+
+export const DEFAULT_SETTINGS: Settings = {
+  version: 2,
+  models: {},
+  minIntervalMs: 1200,
+  rpm: 30,
+  tpm: 40_000,
+  maxToolSteps: 4,
+  hotkey: "Alt+J",
+  autoLockMinutes: 15,
+  disabledSites: [],
+  voice: { readAloud: false, voiceName: "", rate: 1, lang: "" },
+  redaction: { enabled: true, off: [], rules: [] },
+  profiles: []
+};
+
+// Accepts anything (storage, an imported file) and returns a complete, sane Settings
+export function normalizeSettings(raw: any): Settings {
+  const d = DEFAULT_SETTINGS;
+  const r = raw && typeof raw === "object" ? raw : {};
+  const int = (v: any, fallback: number, min: number) => {
+    const n = Math.round(Number(v));
+    return Number.isFinite(n) && n >= min ? n : fallback;
+  };
+  const models: Settings["models"] = {};
+  for (const [id, m] of Object.entries(r.models || {})) {
+    if (typeof m === "string" && m.trim()) models[id as ProviderId] = m.trim();
+  }
+  const profiles: SiteProfile[] = [];
+  for (const p of Array.isArray(r.profiles) ? r.profiles : migrateModes(r)) {
+    const n = normalizeProfile(p);
+    if (n && !profiles.some((x) => x.id === n.id)) profiles.push(n);
+  }
+  return {
+    version: 2,
+    models,
+    minIntervalMs: int(r.minIntervalMs, d.minIntervalMs, 0),
+    rpm: int(r.rpm, d.rpm, 1),
+    tpm: int(r.tpm, d.tpm, 100),
+    maxToolSteps: Math.min(int(r.maxToolSteps, d.maxToolSteps, 0), MAX_TOOL_STEPS),
+    hotkey: parseHotkey(r.hotkey) ? r.hotkey : d.hotkey,
+    autoLockMinutes: Math.min(int(r.autoLockMinutes, d.autoLockMinutes, 0), MAX_AUTO_LOCK_MINUTES),
+    disabledSites: normalizeSites(r.disabledSites),
+    voice: normalizeVoice(r.voice),
+    redaction: normalizeRedaction(r.redaction),
+    profiles
+  };
+}
+
+function normalizeVoice(raw: any): VoiceSettings {
+  const d = DEFAULT_SETTINGS.voice;
+  const v = raw && typeof raw === "object" ? raw : {};
+  const rate = Number(v.rate);
+  return {
+    readAloud: typeof v.readAloud === "boolean" ? v.readAloud : d.readAloud,
+    voiceName: typeof v.voiceName === "string" ? v.voiceName.trim() : d.voiceName,
+    rate: Number.isFinite(rate) ? Math.min(2, Math.max(0.5, Math.round(rate * 10) / 10)) : d.rate,
+    lang: typeof v.lang === "string" && /^[a-z]{2,3}(-[A-Za-z0-9]{2,8})*$/.test(v.lang.trim()) ? v.lang.trim() : d.lang
+  };
+}
+
+function normalizeRedaction(raw: any): RedactionSettings {
+  const v = raw && typeof raw === "object" ? raw : {};
+  const labels = BUILT_IN_DETECTORS.map((d) => d.label);
+  const rules: RedactionRule[] = [];
+  for (const r of Array.isArray(v.rules) ? v.rules : []) {
+    const rule = normalizeRule(r);
+    if (rule && !labels.includes(rule.label)) rules.push(rule);
+  }
+  return {
+    enabled: typeof v.enabled === "boolean" ? v.enabled : DEFAULT_SETTINGS.redaction.enabled,
+    off: Array.isArray(v.off) ? v.off.filter((l: unknown) => labels.includes(l as string)) : [],
+    rules
+  };
+}
+
+function normalizeSites(raw: any): string[] {
+  const out: string[] = [];
+  for (const s of Array.isArray(raw) ? raw : []) {
+    const text = typeof s === "string" ? s.trim() : "";
+    const host = (siteHost(text) ?? text).toLowerCase(); // a pasted URL counts as its host
+    if (/^[a-z0-9.-]+(:\d+)?$/.test(host) && !out.includes(host)) out.push(host);
+  }
+  return out;
+}
+
+// The host a site toggle applies to; null for pages that aren't web sites (chrome://, file://)
+export function siteHost(url: string): string | null {
+  try {
+    const u = new URL(url);
+    return /^https?:$/.test(u.protocol) ? u.host.toLowerCase() : null;
+  } catch (_) {
+    return null;
+  }
+}
+
+export function isSiteEnabled(settings: Settings, url: string): boolean {
+  const host = siteHost(url);
+  return !host || !settings.disabledSites.includes(host);
+}
+
+// null unless the label is usable in a placeholder and the pattern compiles
+export function normalizeRule(raw: any): RedactionRule | null {
+  if (!raw || typeof raw !== "object") return null;
+  const label = typeof raw.label === "string" ? raw.label.trim().toUpperCase() : "";
+  const pattern = typeof raw.pattern === "string" ? raw.pattern : "";
+  const flags = typeof raw.flags === "string" ? raw.flags.replace(/[^imsu]/g, "") : "";
+  if (!RULE_LABEL.test(label) || !pattern) return null;
+  try {
+    // A pattern matching the empty string would replace nothing but loop on every position
+    if (new RegExp(pattern, flags).test("")) return null;
+  } catch (_) {
+    return null;
+  }
+  return flags ? { label, pattern, flags } : { label, pattern };
+}
+
+// Version 1 had per-mode prompts and host lists; keep edited ones as profile overrides
+function migrateModes(r: any): any[] {
+  const out: any[] = [];
+  for (const b of BUILT_IN_PROFILES) {
+    if (b.id !== "aws" && b.id !== "google" && b.id !== "generic") continue;
+    const prompt = r.prompts?.[b.id];
+    const hosts = r.modeHosts?.[b.id];
+    const v1Hosts: Record<string, string> = { aws: "console.aws.amazon.com,amazonaws.cn", google: "google." };
+    const hostsEdited = Array.isArray(hosts) && hosts.join(",") !== v1Hosts[b.id];
+    const promptEdited = typeof prompt === "string" && prompt.trim() && prompt !== b.prompt; // v1 defaults equal the built-ins
+    if (!hostsEdited && !promptEdited) continue;
+    out.push({
+      ...b,
+      ...(promptEdited ? { prompt } : {}),
+      // v1 matched substrings; "*" on both sides keeps that meaning
+      ...(hostsEdited ? { hosts: hosts.map((h: string) => `*${h.replace(/^\.+|\.+$/g, "")}*`) } : {})
+    });
+  }
+  return out;
+}
+
+export type Hotkey = { altKey: boolean; ctrlKey: boolean; shiftKey: boolean; metaKey: boolean; key: string };
+
+// "Ctrl+Shift+K" -> modifiers + key; null if there is no single key or no modifier
+export function parseHotkey(text: unknown): Hotkey | null {
+  if (typeof text !== "string") return null;
+  const parts = text.split("+").map((p) => p.trim()).filter(Boolean);
+  const hk: Hotkey = { altKey: false, ctrlKey: false, shiftKey: false, metaKey: false, key: "" };
+  for (const p of parts) {
+    const l = p.toLowerCase();
+    if (l === "alt" || l === "option") hk.altKey = true;
+    else if (l === "ctrl" || l === "control") hk.ctrlKey = true;
+    else if (l === "shift") hk.shiftKey = true;
+    else if (l === "meta" || l === "cmd" || l === "command") hk.metaKey = true;
+    else if (!hk.key && p.length === 1) hk.key = l;
+    else return null;
+  }
+  if (!hk.key || !(hk.altKey || hk.ctrlKey || hk.metaKey)) return null;
+  return hk;
+}
+
+export async function loadSettings(): Promise<Settings> {
+  try {
+    const data = await chrome.storage.sync.get(SETTINGS_KEY);
+    return normalizeSettings(data?.[SETTINGS_KEY]);
+  } catch (_) {
+    return normalizeSettings(null);
+  }
+}
+
+export async function saveSettings(settings: Settings) {
+  await chrome.storage.sync.set({ [SETTINGS_KEY]: normalizeSettings(settings) });
+}
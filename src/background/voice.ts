@@ -0,0 +1,91 @@
+// Spoken answers: what to read out of an answer, and chrome.tts around it.
+// Speech input runs in the offscreen document (offscreen.ts); the worker only
+// relays its events to the tab that asked.
+import type { VoiceSettings } from "./settings.js";
+
+const TTS_MAX_CHARS = 30_000; // chrome.tts refuses utterances over 32768 characters
+
+export type TtsState = "start" | "end" | "pause" | "resume" | "stopped" | "error";
+
+// Prose only: JSON (action calls, policies) and code blocks are not read out
+export function speakableText(text: string): string {
+  const spoken = stripJson(text)
+    .replace(/```([\w-]*)\n?([\s\S]*?)(```|$)/g, (_, lang: string, body: string) =>
+      /^json/i.test(lang) || isJson(body) ? " " : " (code shown in the panel) ")
+    .replace(/`([^`\n]+)`/g, "$1")
+    .replace(/!?\[([^\]]*)\]\([^)]*\)/g, "$1")           // links and images: their text
+    .replace(/https?:\/\/\S+/g, "(link)")
+    .replace(/^\s{0,3}(#{1,6}|>|[-*+]|\d+[.)])\s+/gm, "") // headings, quotes, list markers
+    .replace(/(\*\*|__|\*|~~)(?=\S)([^\n]*?\S)\1/g, "$2")
+    .replace(/\n{2,}/g, ".\n")
+    .replace(/[ \t]+/g, " ")
+    .trim();
+  return spoken.slice(0, TTS_MAX_CHARS);
+}
+
+function isJson(s: string): boolean {
+  const t = s.trim();
+  if (!/^[[{]/.test(t)) return false;
+  try {
+    JSON.parse(t);
+    return true;
+  } catch (_) {
+    return false;
+  }
+}
+
+// Drop every top-level {...} span that parses as JSON, e.g. an inline action object
+function stripJson(text: string): string {
+  let out = "";
+  let i = 0;
+  while (i < text.length) {
+    const start = text.indexOf("{", i);
+    if (start < 0) break;
+    const end = matchingBrace(text, start);
+    if (end > 0 && isJson(text.slice(start, end + 1))) {
+      out += text.slice(i, start);
+      i = end + 1;
+    } else {
+      out += text.slice(i, start + 1);
+      i = start + 1;
+    }
+  }
+  return out + text.slice(i);
+}
+
+function matchingBrace(text: string, start: number): number {
+  let depth = 0;
+  let inString = false;
+  for (let i = start; i < text.length; i++) {
+    const c = text[i];
+    if (inString) {
+      if (c === "\\") i++;
+      else if (c === '"') inString = false;
+    } else if (c === '"') inString = true;
+    else if (c === "{") depth++;
+    else if (c === "}" && --depth === 0) return i;
+  }
+  return -1;
+}
+
+// Speak over whatever is playing; onState reports what the panel's controls should show
+export function speak(text: string, voice: VoiceSettings, onState: (state: TtsState, error?: string) => void) {
+  const utterance = speakableText(text);
+  if (!utterance) return;
+  chrome.tts.speak(utterance, {
+    voiceName: voice.voiceName || undefined,
+    rate: voice.rate,
+    enqueue: false,
+    onEvent: (e) => {
+      if (e.type === "start" || e.type === "end" || e.type === "pause" || e.type === "resume") onState(e.type);
+      else if (e.type === "interrupted" || e.type === "cancelled") onState("stopped");
+      else if (e.type === "error") onState("error", e.errorMessage);
+    }
+  });
+}
+
+export function controlSpeech(action: "pause" | "resume" | "stop") {
+  if (action === "pause") chrome.tts.pause();
+  else if (action === "resume") chrome.tts.resume();
+  else chrome.tts.stop();
+}
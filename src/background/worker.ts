@@ -1,88 +1,379 @@
-// MV3 service worker: OpenAI routing, streaming, and action extraction
-let OPENAI_API_KEY: string | null = null; // in-memory cache
+// MV3 service worker: LLM routing, streaming, and page-action tool calls
+import { getProvider, listProviders, type Provider, type ProviderConfig, type ProviderId, type ToolCall, type Usage } from "./providers.js";
+import { ACTION_TOOLS, actionKey, toAction } from "./actionTools.js";
+import { checkPageToolCall, isPageTool, PAGE_TOOLS } from "./pageTools.js";
+import { buildContext, countMessages, countTokens, forgetSummary, CONTEXT_BUDGET } from "./context.js";
+import { budgetKey, budgetStatus, exportBudgets, importBudgets, reconcile, recordHeaders, setDefaultLimits, tryAcquire, type Reservation } from "./rateLimit.js";
+import { DEFAULT_SETTINGS, isSiteEnabled, loadSettings, normalizeSettings, parseHotkey, SETTINGS_KEY, type Settings } from "./settings.js";
+import { resolveProfile } from "./profiles.js";
+import { controlSpeech, speak } from "./voice.js";
+import { createRedaction, forgetRedaction } from "./redact.js";
+import { lockVault, resetVault, storeKey, unlockVault, vaultStatus } from "./keyVault.js";
 
-async function loadKeyFromSession(): Promise<string | null> {
+const API_KEYS: Partial<Record<ProviderId, string>> = {}; // in-memory cache
+let PROVIDER_CONFIG: ProviderConfig | null = null;
+let SETTINGS: Settings = DEFAULT_SETTINGS;
+
+const settingsReady = loadSettings().then(applySettings);
+
+function applySettings(s: Settings) {
+  SETTINGS = s;
+  setDefaultLimits(s.rpm, s.tpm);
+  armAutoLock();
+}
+
+// The options page writes synced storage; pick changes up here and tell every open tab
+chrome.storage.onChanged.addListener(async (changes, area) => {
+  if (area !== "sync" || !changes[SETTINGS_KEY]) return;
+  applySettings(normalizeSettings(changes[SETTINGS_KEY].newValue));
+  const tabs = await chrome.tabs.query({});
+  for (const t of tabs) {
+    if (t.id != null) chrome.tabs.sendMessage(t.id, { kind: "SETTINGS_CHANGED", ...contentSettings(t.url || "") }).catch(() => {});
+  }
+});
+
+// The subset content scripts need (they can't import modules), with the
+// profile for the tab's page so child frames use the same one
+function contentSettings(pageUrl: string) {
+  const { id, name, icons, selectors, panel, intents } = resolveProfile(pageUrl, SETTINGS.profiles);
+  return {
+    hotkey: parseHotkey(SETTINGS.hotkey),
+    hotkeyLabel: SETTINGS.hotkey,
+    voice: { readAloud: SETTINGS.voice.readAloud },
+    enabled: isSiteEnabled(SETTINGS, pageUrl),
+    profile: { id, name, icons, selectors, panel, intents }
+  };
+}
+
+// OpenAI keeps its original storage name so keys saved before providers existed still load
+function keyStorageName(id: ProviderId): string {
+  return id === "openai" ? "OPENAI_API_KEY" : `API_KEY_${id}`;
+}
+
+async function loadKeyFromSession(id: ProviderId): Promise<string | null> {
   try {
-    const data = await chrome.storage.session.get('OPENAI_API_KEY');
-    return (data?.OPENAI_API_KEY as string) || null;
+    const name = keyStorageName(id);
+    const data = await chrome.storage.session.get(name);
+    return (data?.[name] as string) || null;
   } catch (_) {
     return null;
   }
 }
 
-async function saveKeyToSession(key: string | null) {
+async function saveKeyToSession(id: ProviderId, key: string | null) {
   try {
-    if (key) await chrome.storage.session.set({ OPENAI_API_KEY: key });
-    else await chrome.storage.session.remove('OPENAI_API_KEY');
+    const name = keyStorageName(id);
+    if (key) await chrome.storage.session.set({ [name]: key });
+    else await chrome.storage.session.remove(name);
   } catch (_) { /* ignore */ }
 }
 
-async function loadKeyFromLocal(): Promise<string | null> {
+// Plain-text device copies from before keys were encrypted. On worker start
+// each one goes into the vault when it is open, otherwise it is kept for this
+// session only; the plain-text copy is deleted either way.
+async function loadLegacyKey(id: ProviderId): Promise<string | null> {
   try {
-    const data = await chrome.storage.local.get('OPENAI_API_KEY');
-    return (data?.OPENAI_API_KEY as string) || null;
+    const name = keyStorageName(id);
+    const data = await chrome.storage.local.get(name);
+    return (data?.[name] as string) || null;
   } catch (_) {
     return null;
   }
 }
 
-async function saveKeyToLocal(key: string | null) {
+async function removeLegacyKey(id: ProviderId) {
+  try { await chrome.storage.local.remove(keyStorageName(id)); } catch (_) { /* ignore */ }
+}
+
+async function migrateLegacyKeys() {
+  const stored = (await vaultStatus()).stored;
+  for (const p of listProviders()) {
+    const legacy = await loadLegacyKey(p.id);
+    if (!legacy) continue;
+    if (!stored.includes(p.id)) await storeKey(p.id, legacy); // false (not saved) while locked or without a vault
+    if (!(await loadKeyFromSession(p.id))) await saveKeyToSession(p.id, legacy);
+    await removeLegacyKey(p.id);
+  }
+}
+
+const legacyKeysMigrated = migrateLegacyKeys().catch(() => { /* left for the next start */ });
+
+async function getKey(id: ProviderId): Promise<string | null> {
+  await legacyKeysMigrated;
+  if (!API_KEYS[id]) API_KEYS[id] = (await loadKeyFromSession(id)) || undefined;
+  return API_KEYS[id] || null;
+}
+
+// Decrypt the saved keys into this session
+async function unlockKeys(passphrase: string): Promise<boolean> {
+  const keys = await unlockVault(passphrase);
+  if (!keys) return false;
+  for (const [id, key] of Object.entries(keys)) {
+    API_KEYS[id as ProviderId] = key;
+    await saveKeyToSession(id as ProviderId, key);
+  }
+  return true;
+}
+
+// Locking forgets every key in memory, including ones that were never saved
+async function lockKeys() {
+  await lockVault();
+  for (const p of listProviders()) {
+    delete API_KEYS[p.id];
+    await saveKeyToSession(p.id, null);
+  }
+}
+
+// Passphrases are only accepted from the popup and options page, never from a
+// content script, where the hosting page can read what is typed
+function fromExtensionPage(sender: chrome.runtime.MessageSender): boolean {
+  return !!sender.url?.startsWith(chrome.runtime.getURL(""));
+}
+
+const KEY_CHECK_TIMEOUT_MS = 8000;
+
+// "invalid" only on an explicit 401/403; a provider we can't reach doesn't block setting the key
+async function checkKey(provider: Provider, baseUrl: string, key: string): Promise<{ status: "valid" | "invalid" | "unverified"; detail?: string }> {
+  if (!provider.buildKeyCheck) return { status: "unverified" };
+  const req = provider.buildKeyCheck(baseUrl, key);
   try {
-    if (key) await chrome.storage.local.set({ OPENAI_API_KEY: key });
-    else await chrome.storage.local.remove('OPENAI_API_KEY');
-  } catch (_) { /* ignore */ }
+    const resp = await fetch(req.url, { ...req.init, signal: AbortSignal.timeout(KEY_CHECK_TIMEOUT_MS) });
+    if (resp.ok) return { status: "valid" };
+    if (resp.status === 401 || resp.status === 403) return { status: "invalid", detail: `${resp.status} ${resp.statusText}`.trim() };
+    return { status: "unverified", detail: `${resp.status} ${resp.statusText}`.trim() };
+  } catch (e: any) {
+    return { status: "unverified", detail: String(e?.message || e) };
+  }
+}
+
+// System idle or screen lock closes an unlocked vault (0 minutes: never)
+function armAutoLock() {
+  const minutes = SETTINGS.autoLockMinutes;
+  if (minutes > 0) chrome.idle.setDetectionInterval(minutes * 60);
+}
+
+chrome.idle.onStateChanged.addListener(async (state) => {
+  await settingsReady;
+  if (state === "active" || SETTINGS.autoLockMinutes <= 0) return;
+  const vault = await vaultStatus();
+  if (vault.exists && !vault.locked) await lockKeys();
+});
+
+async function loadProviderConfig(): Promise<ProviderConfig> {
+  if (PROVIDER_CONFIG) return PROVIDER_CONFIG;
+  try {
+    const data = await chrome.storage.local.get('LLM_PROVIDER');
+    PROVIDER_CONFIG = (data?.LLM_PROVIDER as ProviderConfig) || { id: "openai" };
+  } catch (_) {
+    PROVIDER_CONFIG = { id: "openai" };
+  }
+  return PROVIDER_CONFIG;
+}
+
+async function saveProviderConfig(cfg: ProviderConfig) {
+  PROVIDER_CONFIG = cfg;
+  try { await chrome.storage.local.set({ LLM_PROVIDER: cfg }); } catch (_) { /* ignore */ }
+}
+
+// Active provider plus the resolved endpoint/model/key for one request
+async function resolveProvider() {
+  await settingsReady;
+  const cfg = await loadProviderConfig();
+  const provider = getProvider(cfg.id);
+  return {
+    provider,
+    baseUrl: cfg.baseUrl || provider.defaultBaseUrl,
+    model: cfg.model || SETTINGS.models[provider.id] || provider.defaultModel,
+    apiKey: await getKey(provider.id)
+  };
+}
+
+async function getKeyStatus(id?: ProviderId) {
+  await settingsReady;
+  const cfg = await loadProviderConfig();
+  await legacyKeysMigrated;
+  const vault = await vaultStatus();
+  const providers = await Promise.all(listProviders().map(async (p) => {
+    const inSession = !!(await loadKeyFromSession(p.id));
+    const encrypted = vault.stored.includes(p.id);
+    return {
+      id: p.id,
+      label: p.label,
+      needsKey: p.needsKey,
+      defaultBaseUrl: p.defaultBaseUrl,
+      defaultModel: SETTINGS.models[p.id] || p.defaultModel,
+      hasKey: inSession,
+      persisted: encrypted,
+      encrypted,
+      locked: encrypted && vault.locked && !inSession
+    };
+  }));
+  const current = providers.find((p) => p.id === (id || getProvider(cfg.id).id))!;
+  return {
+    hasKey: current.hasKey,
+    persisted: current.persisted,
+    locked: current.locked,
+    provider: current.id,
+    baseUrl: cfg.baseUrl || "",
+    model: cfg.model || "",
+    vault: { exists: vault.exists, locked: vault.locked },
+    providers
+  };
 }
 
 chrome.runtime.onMessage.addListener((msg: any, sender: chrome.runtime.MessageSender, sendResponse: (response?: any) => void) => {
   (async () => {
     try {
       if (msg?.kind === "SET_API_KEY") {
-        OPENAI_API_KEY = (msg.key || "").trim() || null;
+        // Selecting a provider and setting its key are one step; the key may be
+        // empty for providers that don't need one (e.g. Ollama).
+        await legacyKeysMigrated;
+        const cfg = await loadProviderConfig();
+        const provider = getProvider(msg.provider || cfg.id);
+        const key: string | null = (msg.key || "").trim() || null;
         const persist = !!msg.persist;
-        // Always keep a session copy for immediate use
-        await saveKeyToSession(OPENAI_API_KEY);
-        // Optionally keep a device copy that survives restarts
-        if (persist) await saveKeyToLocal(OPENAI_API_KEY);
-        else await saveKeyToLocal(null);
-        sendResponse({ ok: !!OPENAI_API_KEY, persisted: persist });
+        const sameProvider = provider.id === cfg.id;
+        const next: ProviderConfig = {
+          id: provider.id,
+          baseUrl: msg.baseUrl !== undefined ? (msg.baseUrl || "").trim() || undefined : (sameProvider ? cfg.baseUrl : undefined),
+          model: msg.model !== undefined ? (msg.model || "").trim() || undefined : (sameProvider ? cfg.model : undefined)
+        };
+        let warning: string | undefined;
+        if (key) {
+          // Ask the provider before storing anything, so a typo shows up now and not as a failed answer
+          const check = await checkKey(provider, next.baseUrl || provider.defaultBaseUrl, key);
+          if (check.status === "invalid") {
+            sendResponse({ ok: false, error: `Invalid ${provider.label} API key (${check.detail})` });
+            return;
+          }
+          if (check.status === "unverified" && check.detail) warning = `Could not verify the key (${check.detail})`;
+        }
+        if (msg.key !== undefined) {
+          if (persist && key) {
+            // A device copy is only ever written encrypted; the passphrase opens (or creates) the vault
+            if (msg.passphrase && fromExtensionPage(sender) && !(await unlockKeys(msg.passphrase))) {
+              sendResponse({ ok: false, error: "Wrong passphrase" });
+              return;
+            }
+            if (!(await storeKey(provider.id, key))) {
+              const vault = await vaultStatus();
+              sendResponse({ ok: false, error: vault.exists ? "Saved keys are locked: enter your passphrase" : "Choose a passphrase to save the key on this device" });
+              return;
+            }
+          } else {
+            await storeKey(provider.id, null);
+          }
+          API_KEYS[provider.id] = key || undefined;
+          // Always keep a session copy for immediate use
+          await saveKeyToSession(provider.id, key);
+        }
+        await saveProviderConfig(next);
+        const ok = !provider.needsKey || !!(await getKey(provider.id));
+        const persisted = (await vaultStatus()).stored.includes(provider.id);
+        sendResponse({ ok, persisted, provider: provider.id, warning });
         return;
       }
       if (msg?.kind === "HAS_API_KEY") {
-        if (!OPENAI_API_KEY) OPENAI_API_KEY = await loadKeyFromSession();
-        if (!OPENAI_API_KEY) OPENAI_API_KEY = await loadKeyFromLocal();
-        sendResponse(!!OPENAI_API_KEY);
+        const { provider, apiKey } = await resolveProvider();
+        sendResponse(!provider.needsKey || !!apiKey);
         return;
       }
       if (msg?.kind === "GET_KEY_STATUS") {
-        const inSession = !!(await loadKeyFromSession());
-        const inLocal = !!(await loadKeyFromLocal());
-        sendResponse({ hasKey: inSession || inLocal, persisted: inLocal });
+        sendResponse(await getKeyStatus(msg.provider));
         return;
       }
       if (msg?.kind === "CLEAR_API_KEY") {
-        OPENAI_API_KEY = null;
-        await saveKeyToSession(null);
-        await saveKeyToLocal(null);
+        const id = getProvider(msg.provider || (await loadProviderConfig()).id).id;
+        await legacyKeysMigrated;
+        delete API_KEYS[id];
+        await saveKeyToSession(id, null);
+        await storeKey(id, null);
         sendResponse(true);
         return;
       }
-      if (msg?.kind === "ASK_LLM") {
-        if (!OPENAI_API_KEY) OPENAI_API_KEY = await loadKeyFromSession();
-        if (!OPENAI_API_KEY) OPENAI_API_KEY = await loadKeyFromLocal();
-        if (!OPENAI_API_KEY) {
-          if (sender.tab?.id != null) chrome.tabs.sendMessage(sender.tab.id, { kind: "LLM_ERROR", error: "Missing API key" });
+      if (msg?.kind === "UNLOCK_KEYS") {
+        if (!fromExtensionPage(sender)) {
+          sendResponse({ ok: false, error: "Unlock saved keys from the toolbar popup" });
           return;
         }
-        const tabId = sender.tab?.id;
-        const srcUrl = (sender as any).url || sender.tab?.url || "";
-        if (tabId == null) return;
-        const { messages, context } = msg.payload || {};
-        const tokens = estimateTokens(messages, context);
-        enqueue(() => askOpenAI({ messages, context, tabId, srcUrl }), tokens);
+        const ok = await unlockKeys(String(msg.passphrase || ""));
+        sendResponse(ok ? { ok } : { ok, error: "Wrong passphrase" });
+        return;
+      }
+      if (msg?.kind === "LOCK_KEYS") {
+        await lockKeys();
+        sendResponse(true);
+        return;
+      }
+      if (msg?.kind === "RESET_KEYS") {
+        // Forgotten passphrase: the encrypted keys can't be recovered
+        await legacyKeysMigrated;
+        await resetVault();
+        await lockKeys();
+        sendResponse(true);
+        return;
+      }
+      if (msg?.kind === "STOP_LLM") {
+        await hydrated;
+        sendResponse(await stopRequest(msg.requestId, sender.tab?.id));
         return;
       }
       if (msg?.kind === "GET_STATUS") {
-        sendResponse(getStatus());
+        await hydrated;
+        sendResponse(await getStatus());
+        return;
+      }
+      if (msg?.kind === "PREVIEW_REQUEST") {
+        await hydrated;
+        sendResponse(await previewRequest(sender.tab?.id, sender.url || sender.tab?.url || "", msg.payload));
+        return;
+      }
+      if (msg?.kind === "GET_SETTINGS") {
+        await settingsReady;
+        sendResponse(contentSettings(sender.tab?.url || sender.url || ""));
+        return;
+      }
+      if (msg?.kind === "CAPTURE_OCR") {
+        sendResponse(await captureAndRecognize(sender.tab?.windowId));
+        return;
+      }
+      if (msg?.kind === "SPEECH_START") {
+        sendResponse(await startSpeech(sender.tab?.id));
+        return;
+      }
+      if (msg?.kind === "SPEECH_STOP") {
+        await chrome.runtime.sendMessage({ kind: "SPEECH_STOP", target: "offscreen" }).catch(() => {});
+        sendResponse(true);
+        return;
+      }
+      if (msg?.kind === "SPEECH_EVENT") {
+        // From the offscreen document: interim text, the final transcript, or an error
+        if (speechTabId != null) await toPanel(speechTabId, msg).catch(() => {});
+        if (msg.type === "end") speechTabId = null;
+        return;
+      }
+      if (msg?.kind === "TTS_SPEAK") {
+        const tabId = sender.tab?.id;
+        await settingsReady;
+        speak(String(msg.text || ""), SETTINGS.voice, (state, error) => {
+          if (tabId != null) toPanel(tabId, { kind: "TTS_STATE", state, error }).catch(() => {});
+        });
+        sendResponse(true);
+        return;
+      }
+      if (msg?.kind === "TTS_CONTROL") {
+        controlSpeech(msg.action);
+        sendResponse(true);
+        return;
+      }
+      if (msg?.kind === "FRAME_BROADCAST") {
+        sendResponse(await broadcastToFrames(sender, msg.op, msg.args));
+        return;
+      }
+      if (msg?.kind === "TOGGLE_PANEL") {
+        // Alt+J pressed inside an iframe: the panel lives in the top frame
+        if (sender.tab?.id != null) await toPanel(sender.tab.id, { kind: "TOGGLE_PANEL" }).catch(() => {});
+        sendResponse(true);
         return;
       }
       if (msg?.kind === "OPEN_CHATGPT") {
@@ -98,149 +389,432 @@ chrome.runtime.onMessage.addListener((msg: any, sender: chrome.runtime.MessageSe
   return true; // keep the message channel alive for async sendResponse
 });
 
-async function askOpenAI({ messages, context, tabId, srcUrl }: any) {
-  const sys = {
-    role: "system",
-    content: buildSystemPrompt(srcUrl)
-  };
+// ---------- Request ports: questions and their streams travel over a port per request ----------
+// An open port with traffic keeps the worker alive while it answers; when the
+// worker dies anyway the panel sees the disconnect and asks to RESUME.
+const ports = new Map<string, chrome.runtime.Port>();
+
+chrome.runtime.onConnect.addListener((port) => {
+  if (port.name !== "llm") return;
+  let requestId: string | null = null;
+  port.onDisconnect.addListener(() => {
+    if (requestId && ports.get(requestId) === port) ports.delete(requestId);
+  });
+  port.onMessage.addListener(async (msg: any) => {
+    await hydrated;
+    if (msg?.kind === "ASK_LLM") {
+      requestId = (msg.requestId as string) || `req-${Date.now()}`;
+      ports.set(requestId, port);
+      await acceptRequest(port, requestId, msg.payload || {});
+    } else if (msg?.kind === "RESUME") {
+      requestId = msg.requestId as string;
+      // Still queued or running: keep streaming on the new port. Otherwise the
+      // worker restarted mid-answer and the request is gone.
+      // `running` covers the pump's pause between taking a task and starting it.
+      const live = queue.some((t) => t.id === requestId) || running?.id === requestId || inflight.has(requestId);
+      if (live) ports.set(requestId, port);
+      else port.postMessage({ kind: "LLM_LOST", requestId });
+    }
+    // PING needs no answer: receiving it resets the worker's idle timer
+  });
+});
+
+async function acceptRequest(port: chrome.runtime.Port, requestId: string, payload: any) {
+  const tabId = port.sender?.tab?.id;
+  const srcUrl = port.sender?.url || port.sender?.tab?.url || "";
+  if (tabId == null) return;
+  const resolved = await resolveProvider();
+  if (resolved.provider.needsKey && !resolved.apiKey) {
+    const vault = await vaultStatus();
+    const locked = vault.locked && vault.stored.includes(resolved.provider.id);
+    port.postMessage({
+      kind: "LLM_ERROR",
+      requestId,
+      error: locked ? `Your saved ${resolved.provider.label} key is locked` : `Missing ${resolved.provider.label} API key`,
+      locked
+    });
+    return;
+  }
+  const { messages, context } = payload;
+  enqueue({ id: requestId, tabId, srcUrl, messages, context, tokens: estimateTokens(messages, context) });
+}
 
-  const body = {
-    model: "gpt-4o-mini", // lighter/more available; change if needed
-    messages: [sys, ...(messages || []), { role: "system", content: JSON.stringify({ context }) }],
-    stream: true
+// Messages about one request go to its port; without one (panel reloaded,
+// request rehydrated after a restart) they go to the tab's top frame
+function reply(requestId: string, tabId: number, msg: any): Promise<unknown> {
+  const port = ports.get(requestId);
+  if (port) {
+    try {
+      port.postMessage(msg);
+      return Promise.resolve();
+    } catch (_) {
+      ports.delete(requestId);
+    }
+  }
+  return toPanel(tabId, msg);
+}
+
+// ---------- Frames: the panel lives in the top frame, child frames are agents ----------
+function toPanel(tabId: number, msg: any) {
+  return chrome.tabs.sendMessage(tabId, msg, { frameId: 0 });
+}
+
+const FRAME_TIMEOUT_MS = 1500;
+
+// Run a FRAME_OP in every other frame of the sender's tab and collect the answers
+async function broadcastToFrames(sender: chrome.runtime.MessageSender, op: string, args: any) {
+  const tabId = sender.tab?.id;
+  if (tabId == null) return [];
+  const frames = (await chrome.webNavigation.getAllFrames({ tabId })) || [];
+  const targets = frames.filter((f) => f.frameId !== sender.frameId);
+  const results = await Promise.all(targets.map(async (f) => {
+    try {
+      const result = await Promise.race([
+        chrome.tabs.sendMessage(tabId, { kind: "FRAME_OP", op, args }, { frameId: f.frameId }),
+        sleep(FRAME_TIMEOUT_MS).then(() => null)
+      ]);
+      return result ? { frameId: f.frameId, url: f.url, result } : null;
+    } catch (_) {
+      return null; // no content script in this frame (e.g. chrome:// or sandboxed)
+    }
+  }));
+  return results.filter(Boolean);
+}
+
+// ---------- Tab capture + OCR, speech input (run in the offscreen document) ----------
+const OFFSCREEN_URL = "offscreen.html";
+let creatingOffscreen: Promise<void> | null = null;
+
+async function ensureOffscreen() {
+  const contexts = await chrome.runtime.getContexts({
+    contextTypes: [chrome.runtime.ContextType.OFFSCREEN_DOCUMENT],
+    documentUrls: [chrome.runtime.getURL(OFFSCREEN_URL)]
+  });
+  if (contexts.length) return;
+  if (!creatingOffscreen) {
+    creatingOffscreen = chrome.offscreen.createDocument({
+      url: OFFSCREEN_URL,
+      reasons: [chrome.offscreen.Reason.WORKERS, chrome.offscreen.Reason.USER_MEDIA],
+      justification: "Run on-device OCR on captured tab screenshots and transcribe push-to-talk speech"
+    }).finally(() => { creatingOffscreen = null; });
+  }
+  await creatingOffscreen;
+}
+
+async function captureAndRecognize(windowId?: number) {
+  try {
+    if (windowId == null) return { ok: false, error: "No window to capture" };
+    const dataUrl = await chrome.tabs.captureVisibleTab(windowId, { format: "png" });
+    await ensureOffscreen();
+    const res = await chrome.runtime.sendMessage({ kind: "OCR_RUN", target: "offscreen", dataUrl });
+    return res || { ok: false, error: "OCR did not respond" };
+  } catch (e: any) {
+    return { ok: false, error: String(e?.message || e) };
+  }
+}
+
+// One microphone: the tab that pressed the button last gets the transcript
+let speechTabId: number | null = null;
+
+async function startSpeech(tabId?: number) {
+  try {
+    if (tabId == null) return { ok: false, error: "No tab to send the transcript to" };
+    await settingsReady;
+    await ensureOffscreen();
+    speechTabId = tabId;
+    const res = await chrome.runtime.sendMessage({ kind: "SPEECH_START", target: "offscreen", lang: SETTINGS.voice.lang });
+    return res || { ok: false, error: "Speech recognition did not respond" };
+  } catch (e: any) {
+    return { ok: false, error: String(e?.message || e) };
+  }
+}
+
+// In-flight requests by id, so the panel's Stop button can abort the fetch
+const inflight = new Map<string, AbortController>();
+
+async function stopRequest(requestId: string, tabId?: number): Promise<boolean> {
+  if (!requestId) return false;
+  const idx = queue.findIndex((t) => t.id === requestId);
+  if (idx >= 0) {
+    // Never started: drop it from the queue and close the bubble
+    const [task] = queue.splice(idx, 1);
+    persistQueue();
+    await reply(requestId, tabId ?? task.tabId, { kind: "LLM_DONE", requestId, fullText: "", stopped: true }).catch(() => {});
+    return true;
+  }
+  const ctrl = inflight.get(requestId);
+  if (!ctrl) return false;
+  ctrl.abort();
+  return true;
+}
+
+// Everything before the first request: provider, redacted history and page
+// context trimmed to the budget, and the tools on offer. The preview uses it
+// too, with `preview` so nothing (not even a summary request) is sent.
+async function preparePrompt(tabId: number, srcUrl: string, messages: any[] | undefined, context: any, signal?: AbortSignal, preview = false) {
+  const llm = await resolveProvider();
+  const key = `tab:${tabId}`;
+  const redaction = createRedaction(key, SETTINGS.redaction);
+  const tools = SETTINGS.maxToolSteps > 0 ? [...ACTION_TOOLS, ...PAGE_TOOLS] : ACTION_TOOLS;
+  const built = await buildContext({
+    key,
+    systemPrompt: buildSystemPrompt(srcUrl, { awsContext: !!context?.aws, pageTools: SETTINGS.maxToolSteps > 0 }),
+    messages: redaction.outbound(messages || []),
+    context: redaction.outbound(context),
+    llm,
+    tools,
+    signal,
+    preview,
+    reserve: awaitBudget
+  });
+  return { llm, built, tools, redaction };
+}
+
+// The first request exactly as it would go out (body only: headers carry the key)
+async function previewRequest(tabId: number | undefined, srcUrl: string, payload: any) {
+  try {
+    if (tabId == null) return { ok: false, error: "No tab" };
+    await settingsReady;
+    const { llm, built, tools, redaction } = await preparePrompt(tabId, srcUrl, payload?.messages, payload?.context, undefined, true);
+    const { provider, baseUrl, model, apiKey } = llm;
+    const req = provider.buildRequest({ messages: built.messages, model, apiKey, baseUrl, tools });
+    let body: unknown = req.init.body;
+    try { body = JSON.parse(String(req.init.body)); } catch (_) { /* not JSON */ }
+    return { ok: true, url: req.url, body, tokens: built.breakdown.total, redacted: redaction.counts(), redactionOn: SETTINGS.redaction.enabled };
+  } catch (e: any) {
+    return { ok: false, error: String(e?.message || e) };
+  }
+}
+
+async function askLLM(task: QueuedTask) {
+  const { messages, context, tabId, srcUrl, id: requestId } = task;
+  const ctrl = new AbortController();
+  inflight.set(requestId, ctrl);
+  const onDelta = (delta: string) => {
+    reply(requestId, tabId, { kind: "LLM_DELTA", requestId, delta }).catch(() => { /* tab gone */ });
   };
 
   try {
-    const { fullText } = await fetchWithBackoff(body);
-    await chrome.tabs.sendMessage(tabId, { kind: "LLM_DONE", fullText });
+    // Resolved at run time: the key or provider may have changed while queued
+    const { llm, built, tools: allTools, redaction } = await preparePrompt(tabId, srcUrl, messages, context, ctrl.signal);
+    const { provider, baseUrl, model, apiKey } = llm;
+    const maxSteps = SETTINGS.maxToolSteps;
+    await reply(requestId, tabId, { kind: "LLM_CONTEXT", requestId, breakdown: built.breakdown, redacted: redaction.counts() }).catch(() => {});
 
-    // Try to extract action JSON and forward separately
-    try {
-      const m = fullText.match(/\{[\s\S]*\}/);
-      if (m) {
-        const obj = JSON.parse(m[0]);
-        if (obj && obj.action) {
-          await chrome.tabs.sendMessage(tabId, { kind: "LLM_ACTION", action: obj });
-        }
+    // Actions come only from tool calls; JSON inside the prose stays prose.
+    // Each distinct, valid call is forwarded once, as soon as it is complete.
+    // Placeholders in targets are swapped back so they match the real page.
+    const forwarded = new Set<string>();
+    const onAction = (call: ToolCall): string => {
+      const check = toAction(redaction.inbound(call));
+      if (!check.ok) {
+        reply(requestId, tabId, { kind: "LLM_ACTION", requestId, tool: call.name, error: check.error }).catch(() => {});
+        return `Refused: ${check.error}`;
       }
-    } catch (_) { /* noop */ }
-  } catch (err: any) {
-    // Fallback heuristic: if the last user message looks like highlight, emulate an action
-    try {
-      const last = Array.isArray(messages) ? messages[messages.length - 1]?.content || "" : "";
-      const textMatch = String(last).match(/highlight\s+([\w\s\-\/]+)$/i);
-      if (textMatch && tabId != null) {
-        await chrome.tabs.sendMessage(tabId, {
-          kind: "LLM_ACTION",
-          action: { action: "highlight", targets: [{ text: textMatch[1].trim(), role: "button" }] }
-        });
-        await chrome.tabs.sendMessage(tabId, { kind: "LLM_ERROR", error: `Network error, simulated action. (${err?.message || err})` });
+      const key = actionKey(check.action);
+      if (forwarded.has(key)) return "Already sent";
+      forwarded.add(key);
+      reply(requestId, tabId, { kind: "LLM_ACTION", requestId, action: check.action }).catch(() => {});
+      return "Sent to the page; the user sees it (changes are confirmed by the user first)";
+    };
+
+    // Page tools loop: the model may look at the page (find_elements,
+    // read_text, ...) and is asked again with the results, up to maxSteps
+    // times; the last round only offers the action tools so it has to answer.
+    const convo = built.messages.slice();
+    let fullText = "";
+    for (let step = 0; ; step++) {
+      const tools = step < maxSteps ? allTools : ACTION_TOOLS;
+      const req = provider.buildRequest({ messages: convo, model, apiKey, baseUrl, tools });
+      // Each model has its own limits; reserve against the prompt we actually built
+      const tokens = step === 0 ? built.breakdown.total : countMessages(convo) + countTokens(JSON.stringify(tools));
+      const reservation = { key: budgetKey(provider.id, model), tokens };
+      if (!(await awaitBudget(reservation, ctrl.signal))) {
+        await reply(requestId, tabId, { kind: "LLM_DONE", requestId, fullText, stopped: true });
         return;
       }
-    } catch (_) { /* ignore */ }
-    if (tabId != null) await chrome.tabs.sendMessage(tabId, { kind: "LLM_ERROR", error: String(err?.message || err) });
-  }
-}
+      // From here a restart can't replay the request without charging it twice
+      if (!task.sent) {
+        task.sent = true;
+        persistQueue();
+      }
 
-async function* parseSSE(stream: ReadableStream<Uint8Array>) {
-  const reader = stream.getReader();
-  const decoder = new TextDecoder();
-  let buffer = "";
-  while (true) {
-    const { value, done } = await reader.read();
-    if (done) break;
-    buffer += decoder.decode(value, { stream: true });
-    let idx;
-    while ((idx = buffer.indexOf("\n\n")) >= 0) {
-      const chunk = buffer.slice(0, idx);
-      buffer = buffer.slice(idx + 2);
-      const lines = chunk.split("\n").map((l) => l.trim()).filter(Boolean);
-      for (const line of lines) {
-        if (!line.startsWith("data:")) continue;
-        const data = line.slice(5).trim();
-        if (data === "[DONE]") return;
-        try {
-          const obj = JSON.parse(data);
-          const token = obj?.choices?.[0]?.delta?.content;
-          if (token) yield token as string;
-        } catch (_) {
-          // ignore bad JSON lines
+      const calls: ToolCall[] = [];
+      const results = new Map<string, string>();
+      const onToolCall = (call: ToolCall) => {
+        if (ctrl.signal.aborted) return;
+        calls.push(call);
+        if (!isPageTool(call.name)) results.set(call.id, onAction(call));
+      };
+      // Later rounds continue the same bubble, a paragraph down
+      let separated = !fullText;
+      const restorer = redaction.restorer();
+      const emit = (text: string) => {
+        if (!text) return;
+        if (!separated) {
+          separated = true;
+          onDelta("\n\n");
         }
+        onDelta(text);
+      };
+      const stepDelta = (delta: string) => emit(restorer.push(delta));
+      const res = await fetchWithBackoff(provider, req, { signal: ctrl.signal, onDelta: stepDelta, onToolCall, reservation });
+      emit(restorer.flush());
+      // The conversation keeps the model's own (redacted) text; the tab gets the real one
+      if (res.fullText) fullText += (fullText ? "\n\n" : "") + redaction.inbound(res.fullText);
+      const pageCalls = calls.filter((c) => isPageTool(c.name));
+      if (res.stopped || res.partial || !pageCalls.length || step >= maxSteps) {
+        await reply(requestId, tabId, { kind: "LLM_DONE", requestId, fullText, stopped: res.stopped, partial: res.partial });
+        return;
       }
+
+      for (const call of pageCalls) {
+        const result = await runPageToolCall(tabId, redaction.inbound(call), ctrl.signal);
+        results.set(call.id, redaction.outbound(result.text));
+        reply(requestId, tabId, {
+          kind: "LLM_TOOL", requestId, step: step + 1, name: call.name, args: call.arguments, ok: result.ok, summary: result.summary
+        }).catch(() => {});
+      }
+      if (ctrl.signal.aborted) {
+        await reply(requestId, tabId, { kind: "LLM_DONE", requestId, fullText, stopped: true });
+        return;
+      }
+      convo.push({ role: "assistant", content: res.fullText, toolCalls: calls.map((c) => (c.error ? { ...c, arguments: {} } : c)) });
+      for (const c of calls) convo.push({ role: "tool", toolCallId: c.id, content: results.get(c.id) || "" });
     }
-  }
-  // flush
-  if (buffer.length) {
-    const lines = buffer.split("\n").map((l) => l.trim()).filter(Boolean);
-    for (const line of lines) {
-      if (!line.startsWith("data:")) continue;
-      const data = line.slice(5).trim();
-      if (data === "[DONE]") return;
-      try {
-        const obj = JSON.parse(data);
-        const token = obj?.choices?.[0]?.delta?.content;
-        if (token) yield token as string;
-      } catch (_) { /* noop */ }
-    }
+  } catch (err: any) {
+    await reply(requestId, tabId, { kind: "LLM_ERROR", requestId, error: String(err?.message || err) }).catch(() => {});
+  } finally {
+    inflight.delete(requestId);
   }
 }
 
-async function fetchWithBackoff(body: any): Promise<{ fullText: string }> {
-  const url = "https://api.openai.com/v1/chat/completions";
-  const headers: Record<string, string> = {
-    "Content-Type": "application/json",
-    Authorization: `Bearer ${OPENAI_API_KEY}`
-  };
+const PAGE_TOOL_TIMEOUT_MS = 5000;
+const PAGE_TOOL_MAX_CHARS = 4000; // of each result handed back to the model
+
+// Run one read-only tool in the tab's top frame (content/pageTools.js)
+async function runPageToolCall(tabId: number, call: ToolCall, signal: AbortSignal): Promise<{ ok: boolean; summary: string; text: string }> {
+  const refused = checkPageToolCall(call);
+  if (refused) return { ok: false, summary: refused, text: `Error: ${refused}` };
+  const timeout = new Promise<null>((r) => setTimeout(() => r(null), PAGE_TOOL_TIMEOUT_MS));
+  const stopped = new Promise<null>((r) => signal.addEventListener("abort", () => r(null), { once: true }));
+  const res: any = await Promise.race([
+    chrome.tabs.sendMessage(tabId, { kind: "PAGE_TOOL", name: call.name, args: call.arguments }, { frameId: 0 }).catch(() => null),
+    timeout,
+    stopped
+  ]);
+  if (!res) return { ok: false, summary: "no answer from the page", text: "Error: the page did not answer (reloaded or navigated away)" };
+  let text = JSON.stringify(res.data ?? null);
+  if (text.length > PAGE_TOOL_MAX_CHARS) text = `${text.slice(0, PAGE_TOOL_MAX_CHARS)}… (truncated)`;
+  return { ok: !!res.ok, summary: String(res.summary || ""), text };
+}
+
+type StreamOpts = {
+  signal?: AbortSignal;
+  onDelta?: (delta: string) => void;
+  onToolCall?: (call: ToolCall) => void;
+  reservation?: Reservation;
+};
+type StreamResult = { fullText: string; stopped?: boolean; partial?: boolean };
+
+async function fetchWithBackoff(provider: Provider, req: { url: string; init: RequestInit }, opts: StreamOpts = {}): Promise<StreamResult> {
+  const { signal, onDelta, onToolCall, reservation } = opts;
   const attempts = 3;
   let delay = 1500;
   let lastErr: any = null;
-  for (let i = 0; i < attempts; i++) {
-    try {
-      const resp = await fetch(url, { method: "POST", headers, body: JSON.stringify(body) });
-      if (resp.status === 429) {
-        lastErr = new Error("429 rate limit");
-        const ra = resp.headers.get('retry-after');
-        const extra = ra ? parseInt(ra, 10) * 1000 : delay;
-        await sleep(extra);
+  let fullText = "";
+  let headers: Headers | null = null;
+  let usage: Usage | null = null;
+  let calledTools = false;
+  // Settle the reservation once, whatever way the stream ends: answered,
+  // stopped, rate limited on every attempt or failed
+  try {
+    for (let i = 0; i < attempts; i++) {
+      if (signal?.aborted) return { fullText, stopped: true };
+      try {
+        const resp = await fetch(req.url, { ...req.init, signal });
+        if (resp.status === 429) {
+          lastErr = new Error("429 rate limit");
+          if (reservation) recordHeaders(reservation.key, resp.headers);
+          await sleep(retryAfterMs(resp.headers.get("retry-after"), delay), signal);
+          delay *= 2;
+          continue;
+        }
+        if (!resp.ok || !resp.body) throw new Error(`${resp.status} ${resp.statusText}`);
+        headers = resp.headers;
+        const sink = {
+          onUsage: (u: Usage) => { usage = u; },
+          onToolCall: (c: ToolCall) => { calledTools = true; onToolCall?.(c); }
+        };
+        for await (const delta of provider.parseStream(resp.body, sink)) {
+          const chunk = typeof delta === "string" ? delta : String(delta);
+          fullText += chunk;
+          onDelta?.(chunk);
+        }
+        return { fullText };
+      } catch (e) {
+        if (signal?.aborted) return { fullText, stopped: true };
+        // Once tokens reached the tab a retry would restart the answer and
+        // duplicate them, so keep what we have and flag it as partial.
+        if (fullText || calledTools) return { fullText, partial: true };
+        lastErr = e;
+        await sleep(delay, signal);
         delay *= 2;
-        continue;
-      }
-      if (!resp.ok || !resp.body) throw new Error(`${resp.status} ${resp.statusText}`);
-      let fullText = "";
-      for await (const delta of parseSSE(resp.body)) {
-        const chunk = typeof delta === "string" ? delta : String(delta);
-        fullText += chunk;
       }
-      return { fullText };
-    } catch (e) {
-      lastErr = e;
-      await sleep(delay);
-      delay *= 2;
     }
+    if (signal?.aborted) return { fullText, stopped: true };
+    throw lastErr || new Error(`${provider.label} request failed`);
+  } finally {
+    if (reservation) reconcile(reservation, headers, usage);
   }
-  throw lastErr || new Error("OpenAI request failed");
 }
 
-function sleep(ms: number) { return new Promise((r) => setTimeout(r, ms)); }
+// Retry-After is either delta-seconds or an HTTP-date
+function retryAfterMs(value: string | null, fallback: number): number {
+  if (!value) return fallback;
+  const seconds = Number(value.trim());
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const at = Date.parse(value);
+  return Number.isNaN(at) ? fallback : Math.max(0, at - Date.now());
+}
+
+function sleep(ms: number, signal?: AbortSignal) {
+  return new Promise<void>((r) => {
+    if (signal?.aborted) return r();
+    const t = setTimeout(done, ms);
+    function done() {
+      clearTimeout(t);
+      signal?.removeEventListener("abort", done);
+      r();
+    }
+    signal?.addEventListener("abort", done);
+  });
+}
 
 // ---------- Simple in-worker rate limiter queue ----------
-type QueuedTask = { run: () => Promise<void>; tokens: number };
+// Tasks are plain data so the queue can be mirrored into session storage;
+// Chrome may stop the worker at any time and a fresh one rehydrates from it.
+type QueuedTask = {
+  id: string;
+  tabId: number;
+  srcUrl: string;
+  messages: any[];
+  context: any;
+  tokens: number;
+  sent?: boolean; // the provider has been called
+};
 const queue: QueuedTask[] = [];
+let running: QueuedTask | null = null;
 let busy = false;
 let lastStart = 0;
-const MIN_INTERVAL_MS = 1200; // min gap between request starts
-
-// Token buckets (per-minute) — approximate RPM/TPM controls
-const WINDOW_MS = 60_000;
-const RATE_MAX_RPM = 30;      // adjust to your account limits
-const RATE_MAX_TPM = 40_000;  // approximate TPM budget
-let rpmRemaining = RATE_MAX_RPM;
-let tpmRemaining = RATE_MAX_TPM;
-let windowEndsAt = nextWindow();
-scheduleNextReset();
-
-function enqueue(task: () => Promise<void>, tokens = 500) {
-  queue.push({ run: task, tokens });
+const QUEUE_STORE = "LLM_QUEUE";
+const BUDGET_STORE = "LLM_BUDGETS";
+
+const hydrated = hydrate();
+
+function enqueue(task: QueuedTask) {
+  queue.push(task);
+  persistQueue();
   pump();
 }
 
@@ -249,117 +823,116 @@ function pump() {
   const next = queue.shift();
   if (!next) return;
   const gap = Date.now() - lastStart;
-  const delay = Math.max(0, MIN_INTERVAL_MS - gap);
+  const delay = Math.max(0, SETTINGS.minIntervalMs - gap);
   busy = true;
+  running = next;
   setTimeout(async () => {
     lastStart = Date.now();
+    persistQueue();
     try {
-      await awaitBudget(next.tokens);
-      await next.run();
+      await askLLM(next);
     }
-    finally { busy = false; pump(); }
-  }, delay);
-}
-
-async function awaitBudget(tokensNeeded: number) {
-  // Ensure per-minute buckets have capacity; if not, wait for the next window
-  while (true) {
-    const now = Date.now();
-    if (now >= windowEndsAt) resetBuckets();
-    if (rpmRemaining > 0 && tpmRemaining - tokensNeeded >= 0) {
-      rpmRemaining -= 1;
-      tpmRemaining -= Math.max(1, tokensNeeded);
-      return;
+    finally {
+      busy = false;
+      running = null;
+      persistQueue();
+      pump();
     }
-    const wait = Math.max(200, windowEndsAt - now + 100);
-    await sleep(wait);
-  }
+  }, delay);
 }
 
-function resetBuckets() {
-  rpmRemaining = RATE_MAX_RPM;
-  tpmRemaining = RATE_MAX_TPM;
-  windowEndsAt = nextWindow();
+function persistQueue() {
+  chrome.storage.session.set({
+    [QUEUE_STORE]: { queue, running, lastStart },
+    [BUDGET_STORE]: exportBudgets()
+  }).catch(() => { /* ignore */ });
 }
 
-function nextWindow() {
-  const now = Date.now();
-  return now - (now % WINDOW_MS) + WINDOW_MS; // align to next minute boundary
+// A task that was waiting (even on budget) is replayed; one already sent to
+// the provider is reported lost, since its stream died with the old worker.
+async function hydrate() {
+  await settingsReady;
+  try {
+    const data = await chrome.storage.session.get([QUEUE_STORE, BUDGET_STORE]);
+    importBudgets(data?.[BUDGET_STORE]);
+    const saved = data?.[QUEUE_STORE];
+    if (saved) {
+      lastStart = saved.lastStart || 0;
+      const restored: QueuedTask[] = [...(saved.running ? [saved.running] : []), ...(saved.queue || [])];
+      for (const t of restored) {
+        const tabOpen = await chrome.tabs.get(t.tabId).then(() => true, () => false);
+        if (!tabOpen) continue;
+        if (t.sent) toPanel(t.tabId, { kind: "LLM_LOST", requestId: t.id }).catch(() => {});
+        else queue.push(t);
+      }
+    }
+  } catch (_) { /* start empty */ }
+  persistQueue();
+  pump();
 }
 
-function scheduleNextReset() {
-  const delay = Math.max(0, nextWindow() - Date.now());
-  setTimeout(function tick() {
-    resetBuckets();
-    scheduleNextReset();
-  }, delay);
+// Wait until the model's buckets have room; false if the request was stopped meanwhile
+async function awaitBudget(res: Reservation, signal?: AbortSignal): Promise<boolean> {
+  while (true) {
+    if (signal?.aborted) return false;
+    const wait = tryAcquire(res.key, res.tokens);
+    if (!wait) {
+      persistQueue();
+      return true;
+    }
+    await sleep(wait, signal);
+  }
 }
 
 function estimateTokens(messages: any[], context: any): number {
-  // Very rough: ~4 chars per token, add small overhead per message
-  let chars = 0;
-  if (Array.isArray(messages)) {
-    for (const m of messages) {
-      if (!m) continue;
-      const s = typeof m.content === 'string' ? m.content : JSON.stringify(m.content || '');
-      chars += (s || '').length + 20;
-    }
-  }
-  if (context) chars += JSON.stringify(context).length;
-  return Math.ceil(chars / 4);
+  // Queue-time estimate before trimming; buildContext caps what is actually sent
+  const list = Array.isArray(messages)
+    ? messages.filter(Boolean).map((m) => ({ role: m.role, content: typeof m.content === 'string' ? m.content : JSON.stringify(m.content || '') }))
+    : [];
+  const raw = countMessages(list) + (context ? countTokens(JSON.stringify(context)) : 0);
+  return Math.min(raw, CONTEXT_BUDGET);
 }
 
-function getStatus() {
+chrome.tabs.onRemoved.addListener((tabId) => {
+  forgetSummary(`tab:${tabId}`);
+  forgetRedaction(`tab:${tabId}`);
+});
+
+// Figures for the active model; source says whether they came from the server
+async function getStatus() {
+  const { provider, model } = await resolveProvider();
   return {
     queue: queue.length,
-    rpmRemaining,
-    tpmRemaining,
-    rpmMax: RATE_MAX_RPM,
-    tpmMax: RATE_MAX_TPM,
-    nextResetMs: Math.max(0, windowEndsAt - Date.now())
+    queuedTokens: queue.reduce((sum, t) => sum + t.tokens, 0),
+    model,
+    ...budgetStatus(budgetKey(provider.id, model))
   };
 }
 
-function buildSystemPrompt(url: string): string {
-  let mode: "aws" | "google" | "generic" = "generic";
-  try {
-    const u = new URL(url);
-    const h = u.hostname;
-    if (h.includes("console.aws.amazon.com") || h.endsWith("amazonaws.cn")) mode = "aws";
-    else if (h.includes("google.")) mode = "google";
-  } catch (_) {
-    // ignore
-  }
+// How to use the page tools (ACTION_TOOLS); their schemas travel with the request
+const ACTION_GUIDE = [
+  "To show or locate UI, call the highlight tool; for multi-step walkthroughs call tour.",
+  "fill, select and click change the page and the user is asked to confirm them; only call them when the user asks you to do something, never to merely show it.",
+  "Never write action JSON in your reply: JSON in the answer is shown to the user as text.",
+  "context.snapshot lists the page's landmarks, headings and controls as `- role \"name\" [ref=e12] states`.",
+  'A target may be {"ref":"e12"} instead of text/role; prefer the ref when the element is in the snapshot.'
+];
 
-  if (mode === "aws") {
-    return [
-      "You are an AWS learning coach.",
-      "Be concise with steps and gotchas.",
-      "When the user asks to show or locate UI, emit a single JSON block only:",
-      '{"action":"highlight","targets":[{"text":"...","role":"button|link"}]}',
-      "Avoid hallucinating selectors; prefer visible text/labels.",
-      "Otherwise respond normally."
-    ].join("\n");
-  }
-
-  if (mode === "google") {
-    return [
-      "You are a Google Search assistant.",
-      "Summarize top results, suggest query refinements and site: filters.",
-      "If the user asks 'what are the steps to find <thing>' or similar, answer with concise numbered steps (1-4).",
-      "When possible, also emit a single JSON block to highlight relevant controls, e.g. search box and a link matching the query:",
-      '{"action":"highlight","targets":[{"text":"search","role":"button"},{"text":"<thing>","role":"link"}]}',
-      "When asked to show or locate items on the page, emit a single JSON block only:",
-      '{"action":"highlight","targets":[{"text":"...","role":"link"}]}',
-      "Targets should use visible link text such as result titles, tools (e.g., 'Tools', 'Images'), or filters.",
-      "Do not fabricate DOM selectors."
-    ].join("\n");
-  }
+// Only when the read-only tools are offered (maxToolSteps > 0)
+const PAGE_TOOL_GUIDE = [
+  "find_elements, read_text, list_form_fields and get_page_info only read the page; call them when the snapshot is not enough to answer, then answer from their results.",
+  "Keep it to a few calls; the refs they return work as action targets."
+];
 
+function buildSystemPrompt(url: string, extras: { awsContext?: boolean; pageTools?: boolean } = {}): string {
+  // Prompt text comes from the site profile; the tool guidance is fixed
   return [
-    "You are a helpful web assistant.",
-    "When asked to show or locate UI, emit one JSON block:",
-    '{"action":"highlight","targets":[{"text":"...","role":"button|link"}]}',
-    "Otherwise respond concisely."
+    resolveProfile(url, SETTINGS.profiles).prompt,
+    ...(extras.awsContext ? [
+      "context.aws describes the console page the user is on: service, breadcrumbs, wizard step, region, account, visible banners and form fields.",
+      "Ground your answer in it (e.g. explain an error banner, or what to enter in a field); values shown as [masked] are hidden on purpose, never ask for them."
+    ] : []),
+    ...ACTION_GUIDE,
+    ...(extras.pageTools ? PAGE_TOOL_GUIDE : [])
   ].join("\n");
 }
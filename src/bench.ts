@@ -0,0 +1,178 @@
+/* Element search benchmark (extension page: bench.html, classic script) */
+// Builds a console-like page of about 50k elements — a resource table, nested
+// wrappers and shadow-root widgets — then times the old full-walk search and
+// the indexed one on the same queries: cold, warm, and after a batch of DOM
+// changes. Open chrome-extension://<id>/bench.html from an unpacked build.
+
+const BENCH_TARGET_NODES = 50_000;
+const BENCH_RUNS = 5;
+const BENCH_QUERIES: FindQuery[] = [
+  { text: "Create role" },
+  { text: "Delete", role: "button" },
+  { text: "instance-1874" },
+  { text: "Creat polcy" },     // typo: fuzzy path
+  { text: "Next page" }
+];
+
+function buildSyntheticPage(host: HTMLElement): number {
+  const frag = document.createDocumentFragment();
+  const toolbar = document.createElement("div");
+  for (const label of ["Create role", "Create policy", "Refresh", "Actions", "Settings"]) {
+    const b = document.createElement("button");
+    b.textContent = label;
+    toolbar.appendChild(b);
+  }
+  frag.appendChild(toolbar);
+
+  const table = document.createElement("table");
+  const tbody = document.createElement("tbody");
+  table.appendChild(tbody);
+  let nodes = 0;
+  for (let i = 0; nodes < BENCH_TARGET_NODES; i++) {
+    tbody.appendChild(benchRow(i));
+    nodes += 20;
+  }
+  frag.appendChild(table);
+
+  const pager = document.createElement("nav");
+  pager.innerHTML = '<button>Previous page</button><span>Page 1</span><button aria-label="Next page">›</button>';
+  frag.appendChild(pager);
+  host.appendChild(frag);
+  return document.getElementsByTagName("*").length;
+}
+
+// About 20 elements per row; every 50th row hides its actions in a shadow root
+function benchRow(i: number): HTMLTableRowElement {
+  const tr = document.createElement("tr");
+  tr.innerHTML =
+    `<td><input type="checkbox" aria-label="Select instance-${i}"></td>` +
+    `<td><div><span><a href="#i${i}">instance-${i}</a></span></div></td>` +
+    `<td><div><span class="status">${i % 7 ? "Running" : "Stopped"}</span></div></td>` +
+    `<td><div><span>t3.micro</span><span>eu-central-1${"abc"[i % 3]}</span></div></td>` +
+    `<td><div><span>10.0.${i % 255}.${(i * 7) % 255}</span></div></td>` +
+    `<td class="actions"></td>`;
+  const actions = tr.querySelector(".actions")!;
+  if (i % 50 === 0) {
+    const widget = document.createElement("div");
+    const root = widget.attachShadow({ mode: "open" });
+    root.innerHTML = '<button title="Delete">🗑</button><button>Edit</button>';
+    actions.appendChild(widget);
+  } else {
+    actions.innerHTML = '<button title="Delete"><span>🗑</span></button>';
+  }
+  return tr;
+}
+
+// The search as it was before the index: walk everything, read layout for every node
+function legacyFindCandidates(q: FindQuery): HTMLElement[] {
+  const text = q.text?.toLowerCase().trim();
+  const role = q.role?.toLowerCase().trim();
+  const nodes = allElements();
+  const vw = Math.max(document.documentElement.clientWidth, window.innerWidth || 0);
+  const vh = Math.max(document.documentElement.clientHeight, window.innerHeight || 0);
+  const maxArea = vw * vh * 0.5;
+  const scored: Array<{ el: HTMLElement; score: number; area: number }> = [];
+  for (const el of nodes) {
+    if (!(el.offsetWidth && el.offsetHeight)) continue;
+    const r = el.getBoundingClientRect();
+    const area = Math.max(1, r.width * r.height);
+    if (area > maxArea || area < 12) continue;
+    const roleAttr = (el.getAttribute("role") || "").toLowerCase();
+    const aria = (el.getAttribute("aria-label") || "").toLowerCase();
+    const title = (el.getAttribute("title") || "").toLowerCase();
+    const labelText = (el.textContent || "").trim().toLowerCase();
+    const clickable = isClickable(el);
+    if (!clickable) continue;
+    if (role && !(roleAttr === role || (role === "button" && el.tagName === "BUTTON") || (role === "link" && el.tagName === "A"))) continue;
+    let score = 0;
+    if (!text) score += 1;
+    else {
+      if (labelText.includes(text)) score += 6;
+      if (aria.includes(text) || title.includes(text)) score += 4;
+    }
+    if (score > 0) scored.push({ el, score: score + 2 - Math.log10(area), area });
+  }
+  scored.sort((a, b) => b.score - a.score || a.area - b.area);
+  return scored.slice(0, 12).map((s) => s.el);
+}
+
+type BenchRow = { label: string; median: number; max: number; found: string; note?: string };
+
+function timeRuns(runs: number, fn: () => number | string): { median: number; max: number; found: string } {
+  const times: number[] = [];
+  let found = "";
+  for (let i = 0; i < runs; i++) {
+    const t = performance.now();
+    found = String(fn());
+    times.push(performance.now() - t);
+  }
+  times.sort((a, b) => a - b);
+  return { median: times[Math.floor(times.length / 2)], max: times[times.length - 1], found };
+}
+
+function mutatePage(host: HTMLElement) {
+  const tbody = host.querySelector("tbody")!;
+  const start = tbody.rows.length;
+  for (let i = 0; i < 200; i++) tbody.appendChild(benchRow(start + i));
+  for (let i = 0; i < 200; i++) {
+    const status = tbody.rows[i * 10]?.querySelector(".status");
+    if (status) status.textContent = "Stopping";
+  }
+  tbody.rows[3]?.remove();
+}
+
+function renderBench(rows: BenchRow[], out: HTMLElement) {
+  const pad = (s: string, n: number) => s.padEnd(n);
+  const lines = [`${pad("search", 44)}${pad("median ms", 12)}${pad("max ms", 10)}found`];
+  for (const r of rows) {
+    lines.push(`${pad(r.label, 44)}${pad(r.median.toFixed(1), 12)}${pad(r.max.toFixed(1), 10)}${r.found}${r.note ? `  ${r.note}` : ""}`);
+  }
+  out.textContent = lines.join("\n");
+}
+
+async function runBench() {
+  const host = document.getElementById("bench-page")!;
+  const out = document.getElementById("results")!;
+  const button = document.getElementById("run") as HTMLButtonElement;
+  button.disabled = true;
+  host.innerHTML = "";
+  out.textContent = "Building page…";
+  await new Promise((r) => setTimeout(r, 0));
+  const total = buildSyntheticPage(host);
+  const rows: BenchRow[] = [];
+  const paint = () => new Promise((r) => setTimeout(r, 0));
+
+  for (const q of BENCH_QUERIES) {
+    const name = `"${q.text}"${q.role ? ` (${q.role})` : ""}`;
+    const before = timeRuns(BENCH_RUNS, () => legacyFindCandidates(q).length);
+    rows.push({ label: `before  ${name}`, ...before });
+    renderBench(rows, out);
+    await paint();
+  }
+
+  // First indexed search pays for the walk and the label cache
+  const cold = timeRuns(1, () => rankElements(BENCH_QUERIES[0], { budgetMs: Infinity }).matches.length);
+  rows.push({ label: "after   cold (builds the index)", ...cold });
+  for (const q of BENCH_QUERIES) {
+    const name = `"${q.text}"${q.role ? ` (${q.role})` : ""}`;
+    let partial = false;
+    const after = timeRuns(BENCH_RUNS, () => {
+      const res = rankElements(q);
+      partial = partial || res.partial;
+      return res.matches.length;
+    });
+    rows.push({ label: `after   ${name}`, ...after, note: partial ? "(hit the time budget)" : undefined });
+    renderBench(rows, out);
+    await paint();
+  }
+
+  mutatePage(host);
+  await paint(); // let the observer deliver its records
+  const changed = timeRuns(BENCH_RUNS, () => rankElements({ text: "Stopping" }).matches.length);
+  rows.push({ label: 'after   "Stopping" after 400 DOM changes', ...changed });
+  renderBench(rows, out);
+  out.textContent += `\n\n${total} elements, ${BENCH_RUNS} runs each, budget ${SEARCH_BUDGET_MS} ms for indexed searches.`;
+  button.disabled = false;
+}
+
+document.getElementById("run")!.addEventListener("click", () => { runBench(); });
@@ -0,0 +1,158 @@
+/* Page actions beyond highlight: scroll, focus, fill, select, click (classic script) */
+// Targets are resolved through findCandidates (panel.js); the panel decides
+// whether an action needs the user's confirmation before calling runPageAction.
+
+type PageActionKind = "scroll" | "focus" | "fill" | "select" | "click";
+type PageAction = { action: PageActionKind; target: FindQuery; value?: string; option?: string };
+
+const PAGE_ACTIONS: PageActionKind[] = ["scroll", "focus", "fill", "select", "click"];
+const MUTATING_ACTIONS: PageActionKind[] = ["fill", "select", "click"];
+
+type FieldEl = HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement | HTMLElement;
+
+function parsePageAction(obj: any): PageAction | null {
+  if (!obj || !PAGE_ACTIONS.includes(obj.action)) return null;
+  const raw = obj.target || (Array.isArray(obj.targets) ? obj.targets[0] : null);
+  if (!raw || (!raw.text && !raw.role && !raw.ref)) return null;
+  const [target] = normalizeTargets([raw]);
+  if (obj.action === "fill" && typeof obj.value !== "string") return null;
+  if (obj.action === "select" && typeof obj.option !== "string") return null;
+  return { action: obj.action, target, value: obj.value, option: obj.option };
+}
+
+function isMutatingAction(a: PageAction): boolean {
+  return MUTATING_ACTIONS.includes(a.action);
+}
+
+function describePageAction(a: PageAction): string {
+  const name = a.target.text || a.target.role || "element";
+  switch (a.action) {
+    case "fill": return `Fill '${name}' with "${a.value}"?`;
+    case "select": return `Select "${a.option}" in '${name}'?`;
+    case "click": return `Click '${name}'?`;
+    case "focus": return `Focus '${name}'`;
+    case "scroll": return `Scroll to '${name}'`;
+  }
+}
+
+// The element an action will operate on, or null when nothing matches
+function resolveActionTarget(a: PageAction): HTMLElement | null {
+  if (a.action === "fill" || a.action === "focus" || a.action === "select") {
+    return resolveField(a.target, a.action === "select");
+  }
+  const els = findCandidates(a.target, { clickableOnly: a.action === "click" });
+  return els[0] || null;
+}
+
+function resolveField(q: FindQuery, wantSelect: boolean): FieldEl | null {
+  const byRef = q.ref ? resolveSnapshotRef(q.ref) : null;
+  const refField = byRef && toField(byRef, wantSelect);
+  if (refField) return refField;
+  const text = (q.text || "").toLowerCase();
+  // Placeholder text is the most direct label for many console inputs
+  if (text) {
+    const byPlaceholder = Array.from(document.querySelectorAll<HTMLElement>("input[placeholder], textarea[placeholder]"))
+      .find((el) => el.offsetWidth && !isAssistantNode(el) && (el.getAttribute("placeholder") || "").toLowerCase().includes(text));
+    if (byPlaceholder && !wantSelect) return byPlaceholder;
+  }
+  for (const el of findCandidates(q, { clickableOnly: false })) {
+    const field = toField(el, wantSelect);
+    if (field) return field;
+  }
+  return null;
+}
+
+// Map a matched label/wrapper to the form control it describes
+function toField(el: HTMLElement, wantSelect: boolean): FieldEl | null {
+  const isField = (e: Element): boolean => (
+    e.tagName === "INPUT" || e.tagName === "TEXTAREA" || e.tagName === "SELECT" ||
+    (e as HTMLElement).isContentEditable ||
+    (wantSelect && ["combobox", "listbox"].includes((e.getAttribute("role") || "").toLowerCase()))
+  );
+  if (isField(el)) return el;
+  if (el.tagName === "LABEL") {
+    const ctl = (el as HTMLLabelElement).control;
+    if (ctl) return ctl as FieldEl;
+  }
+  const inner = el.querySelector(wantSelect
+    ? 'select, [role="combobox"], [role="listbox"], button[aria-haspopup]'
+    : 'input:not([type="hidden"]), textarea, [contenteditable="true"]');
+  if (inner) return inner as FieldEl;
+  // Label text next to its control (common in console forms); stay close so
+  // we don't grab an unrelated field from a large wrapper
+  let up = el.parentElement;
+  for (let i = 0; up && i < 3; i++, up = up.parentElement) {
+    const near = up.querySelector(wantSelect
+      ? 'select, [role="combobox"], button[aria-haspopup]'
+      : 'input:not([type="hidden"]), textarea');
+    if (near) return near as FieldEl;
+  }
+  return null;
+}
+
+async function runPageAction(a: PageAction, el: HTMLElement): Promise<string> {
+  el.scrollIntoView({ block: "center", behavior: "smooth" });
+  switch (a.action) {
+    case "scroll":
+      return `Scrolled to '${a.target.text || a.target.role}'.`;
+    case "focus":
+      el.focus();
+      return `Focused '${a.target.text}'.`;
+    case "click":
+      el.click();
+      return `Clicked '${a.target.text}'.`;
+    case "fill":
+      // A label can point at a <select>; the input value setter would throw on it
+      if (el.tagName === "SELECT") {
+        return (await selectOption(el, a.value || ""))
+          ? `Selected "${a.value}".`
+          : `Could not find option "${a.value}".`;
+      }
+      setFieldValue(el, a.value || "");
+      return `Filled '${a.target.text}'.`;
+    case "select":
+      return (await selectOption(el, a.option || ""))
+        ? `Selected "${a.option}".`
+        : `Could not find option "${a.option}".`;
+  }
+}
+
+// Use the native setter so framework-controlled inputs (React) see the change
+function setFieldValue(el: HTMLElement, value: string) {
+  el.focus();
+  if (el.isContentEditable) {
+    el.textContent = value;
+  } else {
+    const proto = el.tagName === "TEXTAREA" ? HTMLTextAreaElement.prototype : HTMLInputElement.prototype;
+    const setter = Object.getOwnPropertyDescriptor(proto, "value")?.set;
+    if (setter) setter.call(el, value);
+    else (el as HTMLInputElement).value = value;
+  }
+  el.dispatchEvent(new Event("input", { bubbles: true }));
+  el.dispatchEvent(new Event("change", { bubbles: true }));
+}
+
+async function selectOption(el: HTMLElement, option: string): Promise<boolean> {
+  const want = option.toLowerCase().trim();
+  if (el.tagName === "SELECT") {
+    const sel = el as HTMLSelectElement;
+    const opt = Array.from(sel.options).find((o) => o.text.toLowerCase().includes(want) || o.value.toLowerCase() === want);
+    if (!opt) return false;
+    sel.value = opt.value;
+    sel.dispatchEvent(new Event("input", { bubbles: true }));
+    sel.dispatchEvent(new Event("change", { bubbles: true }));
+    return true;
+  }
+  // Custom dropdowns: open, wait for the options to render, click the match
+  el.click();
+  for (let i = 0; i < 10; i++) {
+    await new Promise((r) => setTimeout(r, 150));
+    const opt = findCandidates({ text: option, role: "option" }, { clickableOnly: false })[0] ||
+      findCandidates({ text: option, role: "menuitem" }, { clickableOnly: false })[0];
+    if (opt) {
+      opt.click();
+      return true;
+    }
+  }
+  return false;
+}
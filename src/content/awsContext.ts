@@ -0,0 +1,185 @@
+/* AWS console context for the model (classic script, loaded before panel.js) */
+// Reads where the user is in the console — service, sub-page, wizard step,
+// region, account, banners and the visible form — into one typed object that
+// rides along with every ASK_LLM. Values that look sensitive are masked here,
+// before anything leaves the page.
+
+type AwsBanner = { type: "error" | "warning" | "success" | "info"; text: string };
+type AwsFormField = {
+  label: string;
+  kind: string;       // input type, "select", "textarea", "checkbox", ...
+  value: string;      // masked when sensitive
+  required?: boolean;
+  error?: string;     // validation message shown under the field
+};
+type AwsContext = {
+  service: string | null;     // "IAM"
+  serviceId: string | null;   // first URL path segment, e.g. "iam"
+  page: string | null;        // main heading
+  breadcrumbs: string[];      // ["IAM", "Roles", "Create role"]
+  wizardStep: { current: number; total: number | null; title: string | null } | null;
+  region: string | null;      // "eu-central-1"
+  account: { alias: string | null; id: string | null }; // id masked to its last 4 digits
+  banners: AwsBanner[];
+  fields: AwsFormField[];
+};
+
+const AWS_MAX_FIELDS = 30;
+const AWS_SENSITIVE_NAME = /pass(word|phrase)?|secret|token|private|credential|api[-_ ]?key|access[-_ ]?key|session/i;
+
+function extractAwsContext(): AwsContext {
+  const breadcrumbs = awsBreadcrumbs();
+  const titleParts = document.title.split("|").map((s) => s.trim()).filter(Boolean);
+  const serviceId = location.pathname.split("/").filter(Boolean)[0] || null;
+  return {
+    service: breadcrumbs[0] || titleParts[1] || titleParts[0] || null,
+    serviceId,
+    page: awsText(awsVisible(document.querySelectorAll<HTMLElement>("main h1, h1"))[0]) || null,
+    breadcrumbs,
+    wizardStep: awsWizardStep(),
+    region: awsRegion(),
+    account: awsAccount(),
+    banners: awsBanners(),
+    fields: awsFormFields()
+  };
+}
+
+function awsVisible<T extends HTMLElement>(list: ArrayLike<T>): T[] {
+  return Array.from(list).filter((el) => el.offsetWidth > 0 && el.offsetHeight > 0 && !isAssistantNode(el));
+}
+
+function awsText(el: Element | null | undefined, max = 120): string {
+  return (el?.textContent || "").replace(/\s+/g, " ").trim().slice(0, max);
+}
+
+function awsBreadcrumbs(): string[] {
+  const nav = document.querySelector('nav[aria-label="Breadcrumbs" i], nav[aria-label*="breadcrumb" i], [class*="breadcrumb-group"]');
+  if (!nav) return [];
+  const items = Array.from(nav.querySelectorAll("li")).map((li) => awsText(li, 60)).filter(Boolean);
+  return items.length ? items : awsText(nav, 200).split(/\s*[>›/]\s*/).filter(Boolean);
+}
+
+// Cloudscape wizards list their steps in a nav and mark the current one
+function awsWizardStep(): AwsContext["wizardStep"] {
+  const nav = document.querySelector('nav[aria-label*="step" i], [class*="wizard"] nav, [class*="awsui_navigation"]');
+  const steps = nav ? Array.from(nav.querySelectorAll("li")) : [];
+  const idx = steps.findIndex((li) => li.querySelector('[aria-current="step"], [aria-current="true"]') || li.getAttribute("aria-current"));
+  if (idx >= 0) {
+    const title = awsText(steps[idx], 80).replace(/^Step\s+\d+\s*/i, "") || null;
+    return { current: idx + 1, total: steps.length, title };
+  }
+  // Fallback: a "Step 2 of 4" caption anywhere in the main area
+  const caption = awsVisible(document.querySelectorAll<HTMLElement>("main small, main span, small"))
+    .map((el) => awsText(el, 40).match(/^Step\s+(\d+)(?:\s+of\s+(\d+))?$/i))
+    .find(Boolean);
+  if (!caption) return null;
+  return { current: Number(caption[1]), total: caption[2] ? Number(caption[2]) : null, title: null };
+}
+
+function awsRegion(): string | null {
+  const fromQuery = new URLSearchParams(location.search).get("region");
+  if (fromQuery) return fromQuery;
+  const sub = location.hostname.match(/^([a-z]{2}(?:-gov)?-[a-z]+-\d)\./);
+  if (sub) return sub[1];
+  const btn = document.querySelector('[data-testid="awsc-nav-regions-menu-button"]');
+  const code = awsText(btn).match(/[a-z]{2}(?:-gov)?-[a-z]+-\d/);
+  return code ? code[0] : (awsText(btn, 40) || null);
+}
+
+function awsAccount(): AwsContext["account"] {
+  const btn = document.querySelector('[data-testid="awsc-nav-account-menu-button"]');
+  const text = awsText(btn, 120);
+  const id = text.match(/\b\d{4}-?\d{4}-?(\d{4})\b/);
+  const alias = text.replace(/\b\d{4}-?\d{4}-?\d{4}\b/, "").replace(/[@()]/g, " ").replace(/\s+/g, " ").trim();
+  return { alias: alias || null, id: id ? `****-****-${id[1]}` : null };
+}
+
+function awsBanners(): AwsBanner[] {
+  const els = awsVisible(document.querySelectorAll<HTMLElement>(
+    '[class*="awsui_flash_"], [class*="awsui_alert_"], [role="alert"], [class*="flashbar"] [role="status"]'
+  ));
+  const out: AwsBanner[] = [];
+  for (const el of els) {
+    // Nested matches (alert inside a flash) would repeat the same text
+    if (els.some((other) => other !== el && other.contains(el))) continue;
+    const cls = `${el.className} ${el.getAttribute("data-type") || ""}`.toLowerCase();
+    const type: AwsBanner["type"] = cls.includes("error") ? "error"
+      : cls.includes("warning") ? "warning"
+      : cls.includes("success") ? "success"
+      : "info";
+    const text = awsMask(awsText(el, 300));
+    if (text && !out.some((b) => b.text === text)) out.push({ type, text });
+  }
+  return out.slice(0, 6);
+}
+
+function awsFormFields(): AwsFormField[] {
+  // Stay inside the content area so the console header's controls don't count
+  const scope = document.querySelector("main") || document.body;
+  const controls = awsVisible(scope.querySelectorAll<HTMLElement>(
+    'input:not([type="hidden"]):not([type="submit"]):not([type="button"]), textarea, select, button[aria-haspopup="listbox"], [role="combobox"]'
+  ));
+  const out: AwsFormField[] = [];
+  const seenRadio = new Set<string>();
+  for (const el of controls) {
+    if (out.length >= AWS_MAX_FIELDS) break;
+    const input = el as HTMLInputElement;
+    const kind = el.tagName === "SELECT" ? "select"
+      : el.tagName === "TEXTAREA" ? "textarea"
+      : el.tagName === "BUTTON" || el.getAttribute("role") === "combobox" ? "select"
+      : (input.type || "text").toLowerCase();
+    if (kind === "search") continue; // the console's own search bar and table filters
+    const label = awsFieldLabel(el);
+    if (!label) continue;
+
+    let value: string;
+    if (kind === "checkbox") value = input.checked ? "checked" : "unchecked";
+    else if (kind === "radio") {
+      if (!input.checked || seenRadio.has(input.name)) continue;
+      seenRadio.add(input.name);
+      value = "selected";
+    } else if (el.tagName === "SELECT") value = (el as HTMLSelectElement).selectedOptions[0]?.text || "";
+    else if (kind === "select") value = input.value || awsText(el, 80); // custom dropdowns show their choice as text
+    else value = input.value || "";
+
+    const sensitive = kind === "password" || AWS_SENSITIVE_NAME.test(`${label} ${input.name || ""} ${el.id}`);
+    const field: AwsFormField = {
+      label,
+      kind,
+      value: sensitive && value ? "[masked]" : awsMask(value.slice(0, 120))
+    };
+    if (el.hasAttribute("required") || el.getAttribute("aria-required") === "true") field.required = true;
+    if (el.getAttribute("aria-invalid") === "true") field.error = awsDescribedBy(el) || "invalid";
+    out.push(field);
+  }
+  return out;
+}
+
+function awsFieldLabel(el: HTMLElement): string {
+  const byAttr = el.getAttribute("aria-label");
+  if (byAttr) return byAttr.trim().slice(0, 80);
+  const ids = (el.getAttribute("aria-labelledby") || "").split(/\s+/).filter(Boolean);
+  const labelled = ids.map((id) => awsText(document.getElementById(id), 80)).filter(Boolean).join(" ");
+  if (labelled) return labelled;
+  const native = (el as HTMLInputElement).labels?.[0];
+  if (native) return awsText(native, 80);
+  // Cloudscape form fields wrap the label and the control in one container
+  const wrap = el.closest('[class*="awsui_form-field"], [class*="form-field"], label');
+  const lbl = wrap?.querySelector("label");
+  return awsText(lbl || (wrap?.tagName === "LABEL" ? wrap : null), 80)
+    || (el.getAttribute("placeholder") || "").trim().slice(0, 80);
+}
+
+function awsDescribedBy(el: HTMLElement): string {
+  const ids = (el.getAttribute("aria-describedby") || "").split(/\s+/).filter(Boolean);
+  return ids.map((id) => awsText(document.getElementById(id), 160)).filter(Boolean).join(" ");
+}
+
+// Account ids, access keys, emails and ARNs' account part inside free text
+function awsMask(text: string): string {
+  return text
+    .replace(/\b(AKIA|ASIA)[A-Z0-9]{16}\b/g, "$1****************")
+    .replace(/\b[\w.+-]+@[\w-]+\.[\w.-]+\b/g, "[email]")
+    .replace(/(arn:aws[\w-]*:[\w-]*:[\w-]*:)\d{12}/g, "$1************")
+    .replace(/\b\d{4}-?\d{4}-?(\d{4})\b/g, "****-****-$1");
+}
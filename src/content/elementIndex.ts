@@ -0,0 +1,229 @@
+/* Element index and time-budgeted search (classic script, loaded before panel.js) */
+// The page (shadow roots included) is walked once; a MutationObserver keeps the
+// list current and drops cached labels of whatever changed. A search scores
+// labels first without touching layout, then reads sizes only for the hits, in
+// one batch, and gives up at its time budget with whatever it found so far.
+
+type ElementMatch = { el: HTMLElement; score: number; match: LabelMatch | null };
+type SearchResult = { matches: ElementMatch[]; partial: boolean; scanned: number; total: number; ms: number };
+type IndexedElement = { el: HTMLElement; clickable: boolean; labels: ElementLabel[] | null };
+
+const SEARCH_BUDGET_MS = 60;
+const SEARCH_CHECK_EVERY = 256;  // nodes between clock reads
+const INDEX_TEXT_MAX_CHILDREN = 8; // wider wrappers are matched through their children
+
+const INDEX = {
+  list: [] as IndexedElement[],
+  byEl: new WeakMap<Element, IndexedElement>(),
+  observer: null as MutationObserver | null,
+  built: false,
+  removed: 0
+};
+
+const INDEX_ATTRS = ["aria-label", "aria-labelledby", "title", "placeholder", "alt", "value", "role", "tabindex", "type"];
+
+function indexedElements(): IndexedElement[] {
+  if (!INDEX.built) buildIndex();
+  // Detached entries are skipped by searches; compact once they pile up
+  if (INDEX.removed > 500 && INDEX.removed > INDEX.list.length / 4) {
+    INDEX.list = INDEX.list.filter((e) => {
+      if (e.el.isConnected) return true;
+      INDEX.byEl.delete(e.el);
+      return false;
+    });
+    INDEX.removed = 0;
+  }
+  return INDEX.list;
+}
+
+function buildIndex() {
+  INDEX.observer = new MutationObserver(onIndexMutations);
+  INDEX.built = true;
+  indexSubtree(document);
+}
+
+function observeRoot(root: Node) {
+  INDEX.observer?.observe(root, { childList: true, subtree: true, characterData: true, attributes: true, attributeFilter: INDEX_ATTRS });
+}
+
+function indexSubtree(root: Node) {
+  // Mutation records only cover their own tree, so each shadow root gets its own observation
+  if (root === document || root instanceof ShadowRoot) observeRoot(root);
+  for (const el of allElements(root)) {
+    if (INDEX.byEl.has(el)) continue;
+    const entry: IndexedElement = { el, clickable: isClickable(el), labels: null };
+    INDEX.byEl.set(el, entry);
+    INDEX.list.push(entry);
+    const shadow = (el as any).shadowRoot as ShadowRoot | null;
+    if (shadow) observeRoot(shadow);
+  }
+}
+
+function onIndexMutations(records: MutationRecord[]) {
+  for (const r of records) {
+    if (r.type === "attributes") {
+      const entry = INDEX.byEl.get(r.target as Element);
+      if (entry) {
+        entry.clickable = isClickable(entry.el);
+        entry.labels = null;
+      }
+      continue;
+    }
+    if (r.type === "childList") {
+      r.addedNodes.forEach((n) => { if (n.nodeType === Node.ELEMENT_NODE && !isAssistantNode(n)) indexSubtree(n); });
+      INDEX.removed += r.removedNodes.length;
+    }
+    // Text below changed: every ancestor's text label is stale
+    invalidateLabelsUp(r.target);
+  }
+}
+
+function invalidateLabelsUp(node: Node) {
+  let n: Node | null = node;
+  while (n) {
+    const entry = INDEX.byEl.get(n as Element);
+    if (entry) {
+      entry.labels = null;
+      const control = (n as HTMLLabelElement).tagName === "LABEL" ? (n as HTMLLabelElement).control : null;
+      const controlEntry = control && INDEX.byEl.get(control);
+      if (controlEntry) controlEntry.labels = null;
+    }
+    n = n.parentNode || (n as ShadowRoot).host || null;
+  }
+}
+
+function labelsOf(entry: IndexedElement): ElementLabel[] {
+  if (!entry.labels) {
+    const withText = entry.clickable || entry.el.childElementCount <= INDEX_TEXT_MAX_CHILDREN;
+    entry.labels = elementLabels(entry.el, withText);
+  }
+  return entry.labels;
+}
+
+function rankElements(q: FindQuery, opts: FindOpts = {}): SearchResult {
+  const started = performance.now();
+  const deadline = started + (opts.budgetMs ?? SEARCH_BUDGET_MS);
+  const text = q.text?.trim();
+  const role = q.role?.toLowerCase().trim();
+  const strict = !!opts.strict;
+  const clickableOnly = opts.clickableOnly !== false;
+  const shortText = !!text && text.length <= 3;
+  const folded = text ? foldText(text) : "";
+
+  // Pass 1: attributes and cached labels only, no layout
+  const entries = indexedElements();
+  type Hit = { entry: IndexedElement; score: number; match: LabelMatch | null };
+  const hits: Hit[] = [];
+  let partial = false;
+  let scanned = 0;
+  for (; scanned < entries.length; scanned++) {
+    if (scanned % SEARCH_CHECK_EVERY === 0 && scanned && performance.now() > deadline) {
+      partial = true;
+      break;
+    }
+    const entry = entries[scanned];
+    const el = entry.el;
+    if (!el.isConnected) continue;
+
+    // Short text should only match clickables to reduce noise
+    if ((shortText || clickableOnly) && !entry.clickable) continue;
+
+    // Role constraint if provided
+    const roleAttr = (el.getAttribute("role") || "").toLowerCase();
+    if (role) {
+      const roleOk = roleAttr === role ||
+        (role === "button" && (el.tagName === "BUTTON" || el.getAttribute("type") === "button")) ||
+        (role === "link" && el.tagName === "A") ||
+        snapshotRole(el) === role; // implicit roles: textbox for <input>, combobox for <select>, ...
+      if (!roleOk) continue;
+    }
+
+    let score = 0;
+    let match: LabelMatch | null = null;
+    if (!text) score += 1; // no text query, allow through
+    else {
+      match = bestLabelMatch(labelsOf(entry), folded, strict);
+      if (!match) continue;
+      score += match.score * 10;
+    }
+    if (entry.clickable) score += 2;
+    if (role && roleAttr === role) score += 2;
+    hits.push({ entry, score, match });
+  }
+
+  // Pass 2: layout reads for the hits, back to back (nothing writes in between)
+  const vw = Math.max(document.documentElement.clientWidth, window.innerWidth || 0);
+  const vh = Math.max(document.documentElement.clientHeight, window.innerHeight || 0);
+  const maxArea = vw * vh * 0.5; // avoid huge wrappers more aggressively
+  const minArea = 12; // skip tiny noise elements
+  type Scored = ElementMatch & { area: number; rect: DOMRect };
+  const scored: Scored[] = [];
+  hits.sort((a, b) => b.score - a.score);
+  for (let i = 0; i < hits.length; i++) {
+    if (i % SEARCH_CHECK_EVERY === 0 && i && performance.now() > deadline) {
+      partial = true;
+      break;
+    }
+    const { entry, score, match } = hits[i];
+    const el = entry.el;
+    if (!(el.offsetWidth && el.offsetHeight)) continue; // visible
+    const rect = el.getBoundingClientRect();
+    const area = Math.max(1, rect.width * rect.height);
+    if (area > maxArea || area < minArea) continue; // skip huge or tiny
+    // Prefer smaller targets when scores tie
+    scored.push({ el, score: score - Math.log10(area), area, match, rect });
+  }
+
+  scored.sort((a, b) => b.score - a.score || a.area - b.area);
+  const picked: ElementMatch[] = [];
+  const boxes: DOMRect[] = [];
+  for (const s of scored) {
+    let overlap = false;
+    for (const b of boxes) {
+      if (rectsOverlap(s.rect, b)) { overlap = true; break; }
+    }
+    if (!overlap) {
+      picked.push({ el: s.el, score: s.score, match: s.match });
+      boxes.push(s.rect);
+    }
+    if (picked.length >= 12) break; // cap
+  }
+  return { matches: picked, partial, scanned, total: entries.length, ms: performance.now() - started };
+}
+
+function allElements(root: Node = document): HTMLElement[] {
+  const out: HTMLElement[] = [];
+  const pushTree = (root: Node | ShadowRoot) => {
+    const walker = document.createTreeWalker(root as Node, NodeFilter.SHOW_ELEMENT, {
+      acceptNode: (n) => (isAssistantNode(n) ? NodeFilter.FILTER_REJECT : NodeFilter.FILTER_ACCEPT)
+    });
+    let n = walker.currentNode as Element | null;
+    while (n) {
+      if (n.nodeType === Node.ELEMENT_NODE) out.push(n as HTMLElement);
+      const any = n as any;
+      if (any.shadowRoot) pushTree(any.shadowRoot);
+      n = walker.nextNode() as Element | null;
+    }
+  };
+  pushTree(root);
+  return out;
+}
+
+function isClickable(el: HTMLElement): boolean {
+  if (!el) return false;
+  const tag = el.tagName;
+  if (tag === 'A' || tag === 'BUTTON' || tag === 'INPUT' || tag === 'SELECT' || tag === 'TEXTAREA') return true;
+  const role = (el.getAttribute('role') || '').toLowerCase();
+  if (role === 'button' || role === 'link' || role === 'tab' || role === 'menuitem') return true;
+  const tabIndex = el.getAttribute('tabindex');
+  if (tabIndex && parseInt(tabIndex, 10) >= 0) return true;
+  return false;
+}
+
+function rectsOverlap(a: DOMRect, b: DOMRect): boolean {
+  const xOverlap = Math.max(0, Math.min(a.right, b.right) - Math.max(a.left, b.left));
+  const yOverlap = Math.max(0, Math.min(a.bottom, b.bottom) - Math.max(a.top, b.top));
+  const overlapArea = xOverlap * yOverlap;
+  const minArea = Math.min(a.width * a.height, b.width * b.height);
+  return overlapArea / Math.max(1, minArea) > 0.7;
+}
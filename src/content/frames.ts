@@ -0,0 +1,68 @@
+/* Frame fan-out (classic script, loaded before panel.js) */
+// Only the top frame hosts the panel. Every other frame is an agent: the top
+// frame asks the worker to run a FRAME_OP in all frames of the tab, and each
+// frame searches / highlights its own DOM in its own coordinates.
+
+const IS_TOP_FRAME = window.top === window;
+
+type FrameOp = "find" | "highlight" | "clear" | "domHints";
+type FrameReply<T> = { frameId: number; url: string; result: T };
+
+function broadcastToFrames<T = any>(op: FrameOp, args: any = {}): Promise<Array<FrameReply<T>>> {
+  return new Promise((resolve) => {
+    chrome.runtime.sendMessage({ kind: "FRAME_BROADCAST", op, args }, (res: any) => {
+      resolve(Array.isArray(res) ? res : []);
+    });
+  });
+}
+
+// Highlight in child frames (replacing what they showed before); resolves to
+// the number of matches per query across all frames
+async function highlightInFrames(queries: FindQuery[], label = "Target"): Promise<number[]> {
+  const totals = queries.map(() => 0);
+  if (!queries.length) return totals;
+  const replies = await broadcastToFrames<{ counts: number[] }>("highlight", { queries, label });
+  for (const r of replies) (r.result?.counts || []).forEach((c, i) => { totals[i] += c; });
+  return totals;
+}
+
+function clearFrameHighlights() {
+  broadcastToFrames("clear");
+}
+
+async function collectFrameDomHints(): Promise<string[]> {
+  const replies = await broadcastToFrames<{ hints: string[] }>("domHints");
+  return replies.flatMap((r) => r.result?.hints || []);
+}
+
+function runFrameOp(op: FrameOp, args: any) {
+  switch (op) {
+    case "find": {
+      const els = (args.queries as FindQuery[]).flatMap((q) => findCandidates(q, args.opts || {}));
+      return { count: els.length, texts: els.slice(0, 12).map((e) => (e.textContent || "").trim().slice(0, 80)) };
+    }
+    case "highlight": {
+      const perQuery = (args.queries as FindQuery[]).map((q) => findCandidates(q, args.opts || {}));
+      const els = perQuery.flat();
+      if (els.length) highlightElements(els, args.label || "Target");
+      else cleanupHighlights();
+      return { counts: perQuery.map((m) => m.length) };
+    }
+    case "clear":
+      cleanupHighlights();
+      return { count: 0 };
+    case "domHints":
+      return { hints: collectDomHints() };
+  }
+}
+
+if (!IS_TOP_FRAME) {
+  chrome.runtime.onMessage.addListener((msg: any, _sender, sendResponse) => {
+    if (msg?.kind !== "FRAME_OP" || !SITE_ENABLED) return; // panel.js: disabled sites have no agents
+    try {
+      sendResponse(runFrameOp(msg.op, msg.args || {}));
+    } catch (_) {
+      sendResponse(null);
+    }
+  });
+}
@@ -1,43 +1,215 @@
-export function highlightElements(els: HTMLElement[], label = "Target") {
-  cleanupHighlights();
-  els.forEach((el, idx) => {
-    const r = el.getBoundingClientRect();
-    const overlay = document.createElement("div");
-    overlay.className = "aws-assist-highlight";
-    Object.assign(overlay.style as any, {
-      position: "fixed",
-      left: `${r.left + window.scrollX}px`,
-      top: `${r.top + window.scrollY}px`,
-      width: `${r.width}px`,
-      height: `${r.height}px`,
-      outline: "3px solid #22c55e",
-      borderRadius: "8px",
-      zIndex: 2147483647,
-      pointerEvents: "none",
-      boxShadow: "0 0 0 4px rgba(34,197,94,0.2)",
-      animation: "awsAssistPulse 1.6s infinite"
-    });
+/* Highlight engine (classic script, loaded after uiRoot.js): overlays that track their element */
+// Overlays live in one fixed-position layer inside the assistant's shadow root
+// (styles.css provides the pulse animation) and are repositioned on the next
+// animation frame after any scroll (including inner scroll containers), resize,
+// element resize or DOM change. Overlays whose element is detached are removed.
 
-    const tag = document.createElement("div");
-    tag.textContent = `${label} ${idx + 1}`;
-    Object.assign(tag.style as any, {
-      position: "absolute",
-      top: "-28px",
-      left: "0",
-      padding: "4px 8px",
-      background: "#22c55e",
-      color: "white",
-      borderRadius: "6px",
-      fontSize: "12px",
-      fontFamily: "ui-sans-serif, system-ui"
-    });
+type HighlightSpec = { el: HTMLElement; label?: string; color?: string };
+type HighlightOpts = {
+  append?: boolean;    // keep existing overlays (default: replace them)
+  timeoutMs?: number;  // auto-dismiss these overlays after this long
+  scroll?: boolean;    // scroll the first target into view (default: true)
+  color?: string;      // default colour for targets without their own
+  dashed?: boolean;    // approximate targets (OCR boxes)
+};
+
+type Overlay = {
+  node: HTMLDivElement;
+  tag: HTMLDivElement;
+  el?: HTMLElement;
+  clippers?: HTMLElement[]; // scrollable ancestors that can hide the element
+  box?: OcrBox;             // document coordinates, for element-less targets
+  timer?: number;
+};
+
+const HIGHLIGHT_COLOR = "#22c55e";
+const OVERLAYS: Overlay[] = [];
+let highlightLayer: HTMLDivElement | null = null;
+let highlightFrame: number | null = null;
+let highlightResizeObs: ResizeObserver | null = null;
+let highlightMutationObs: MutationObserver | null = null;
+
+function highlightElements(items: Array<HTMLElement | HighlightSpec>, label = "Target", opts: HighlightOpts = {}) {
+  if (!opts.append) cleanupHighlights();
+  const specs = items.map((it) => (it instanceof HTMLElement ? { el: it } : it));
+  specs.forEach((spec, idx) => {
+    const ov = createOverlay(spec.label || `${label} ${idx + 1}`, spec.color || opts.color, opts.dashed);
+    ov.el = spec.el;
+    ov.clippers = scrollClippers(spec.el);
+    addOverlay(ov, opts.timeoutMs);
+    highlightResizeObs?.observe(spec.el);
+  });
+  if (opts.scroll !== false && specs[0]) specs[0].el.scrollIntoView({ block: "center", behavior: "smooth" });
+  scheduleHighlightUpdate();
+}
+
+// Element-less overlays for OCR boxes; appends to existing highlights unless told otherwise
+function highlightBoxes(boxes: OcrBox[], label = "OCR", opts: HighlightOpts = {}) {
+  if (opts.append === false) cleanupHighlights();
+  boxes.forEach((box, idx) => {
+    const ov = createOverlay(`${label} ${idx + 1}`, opts.color || "#f59e0b", opts.dashed !== false);
+    ov.box = box;
+    addOverlay(ov, opts.timeoutMs);
+  });
+  const first = boxes[0];
+  if (opts.scroll !== false && first) window.scrollTo({ top: Math.max(0, first.y - window.innerHeight / 2), behavior: "smooth" });
+  scheduleHighlightUpdate();
+}
+
+function cleanupHighlights() {
+  while (OVERLAYS.length) removeOverlay(OVERLAYS[0]);
+}
+
+function createOverlay(text: string, color = HIGHLIGHT_COLOR, dashed = false): Overlay {
+  const node = document.createElement("div");
+  node.className = "aws-assist-highlight";
+  Object.assign(node.style, {
+    position: "absolute",
+    left: "0",
+    top: "0",
+    outline: `3px ${dashed ? "dashed" : "solid"} ${color}`,
+    borderRadius: "8px",
+    pointerEvents: "none",
+    animation: "awsAssistPulse 1.6s infinite"
+  });
+  node.style.setProperty("--aws-assist-glow", `color-mix(in srgb, ${color} 22%, transparent)`);
+  const tag = document.createElement("div");
+  tag.textContent = text;
+  Object.assign(tag.style, {
+    position: "absolute",
+    left: "0",
+    padding: "4px 8px",
+    background: color,
+    color: "white",
+    borderRadius: "6px",
+    fontSize: "12px",
+    fontFamily: "ui-sans-serif, system-ui",
+    whiteSpace: "nowrap"
+  });
+  node.appendChild(tag);
+  return { node, tag };
+}
+
+function addOverlay(ov: Overlay, timeoutMs?: number) {
+  ensureHighlightLayer().appendChild(ov.node);
+  OVERLAYS.push(ov);
+  if (timeoutMs && timeoutMs > 0) ov.timer = window.setTimeout(() => removeOverlay(ov), timeoutMs);
+}
+
+function removeOverlay(ov: Overlay) {
+  const i = OVERLAYS.indexOf(ov);
+  if (i >= 0) OVERLAYS.splice(i, 1);
+  if (ov.timer != null) clearTimeout(ov.timer);
+  if (ov.el && !OVERLAYS.some((o) => o.el === ov.el)) highlightResizeObs?.unobserve(ov.el);
+  ov.node.remove();
+  if (!OVERLAYS.length) teardownHighlightLayer();
+}
+
+function ensureHighlightLayer(): HTMLDivElement {
+  if (highlightLayer?.isConnected) return highlightLayer;
+  highlightLayer = document.createElement("div");
+  highlightLayer.id = "aws-assist-highlight-layer";
+  Object.assign(highlightLayer.style, {
+    position: "fixed",
+    left: "0",
+    top: "0",
+    width: "0",
+    height: "0",
+    overflow: "visible",
+    zIndex: "2147483647",
+    pointerEvents: "none"
+  });
+  getUiRoot().appendChild(highlightLayer);
+
+  // capture: true also catches scrolls of inner containers (tables, side navs)
+  window.addEventListener("scroll", scheduleHighlightUpdate, true);
+  window.addEventListener("resize", scheduleHighlightUpdate);
+  highlightResizeObs = new ResizeObserver(() => scheduleHighlightUpdate());
+  highlightMutationObs = new MutationObserver((records) => {
+    // Changes inside the shadow root aren't observed; only skip our host element
+    if (records.some((r) => !isAssistantNode(r.target))) scheduleHighlightUpdate();
+  });
+  highlightMutationObs.observe(document.documentElement, {
+    childList: true,
+    subtree: true,
+    attributes: true,
+    attributeFilter: ["class", "style", "hidden", "open", "aria-expanded"]
+  });
+  return highlightLayer;
+}
 
-    overlay.appendChild(tag);
-    document.body.appendChild(overlay);
-    el.scrollIntoView({ block: "center", behavior: "smooth" });
+function teardownHighlightLayer() {
+  window.removeEventListener("scroll", scheduleHighlightUpdate, true);
+  window.removeEventListener("resize", scheduleHighlightUpdate);
+  highlightResizeObs?.disconnect();
+  highlightMutationObs?.disconnect();
+  highlightResizeObs = null;
+  highlightMutationObs = null;
+  if (highlightFrame != null) cancelAnimationFrame(highlightFrame);
+  highlightFrame = null;
+  highlightLayer?.remove();
+  highlightLayer = null;
+}
+
+function scheduleHighlightUpdate() {
+  if (highlightFrame != null || !OVERLAYS.length) return;
+  highlightFrame = requestAnimationFrame(() => {
+    highlightFrame = null;
+    updateOverlays();
   });
 }
 
-export function cleanupHighlights() {
-  document.querySelectorAll(".aws-assist-highlight").forEach((n) => n.remove());
+function updateOverlays() {
+  // Read every rect first, then write, to avoid layout thrashing
+  const rects = OVERLAYS.map((ov) => overlayRect(ov));
+  OVERLAYS.slice().forEach((ov, i) => {
+    const r = rects[i];
+    if (r === "detached") {
+      removeOverlay(ov);
+      return;
+    }
+    if (!r) {
+      ov.node.style.display = "none";
+      return;
+    }
+    Object.assign(ov.node.style, {
+      display: "block",
+      transform: `translate(${r.left}px, ${r.top}px)`,
+      width: `${r.width}px`,
+      height: `${r.height}px`
+    });
+    // Keep the label on screen when the target hugs the top edge
+    ov.tag.style.top = r.top < 30 ? `${r.height + 4}px` : "-28px";
+  });
+}
+
+// Viewport rect to draw, null when scrolled out of its container, "detached" when gone
+function overlayRect(ov: Overlay): DOMRect | null | "detached" {
+  if (ov.box) {
+    const b = ov.box;
+    return new DOMRect(b.x - window.scrollX - 2, b.y - window.scrollY - 2, b.w + 4, b.h + 4);
+  }
+  const el = ov.el!;
+  if (!el.isConnected) return "detached";
+  let r = el.getBoundingClientRect();
+  if (!r.width && !r.height) return null;
+  for (const c of ov.clippers || []) {
+    const cr = c.getBoundingClientRect();
+    const left = Math.max(r.left, cr.left), top = Math.max(r.top, cr.top);
+    const right = Math.min(r.right, cr.right), bottom = Math.min(r.bottom, cr.bottom);
+    if (right <= left || bottom <= top) return null;
+    r = new DOMRect(left, top, right - left, bottom - top);
+  }
+  return r;
+}
+
+function scrollClippers(el: HTMLElement): HTMLElement[] {
+  const out: HTMLElement[] = [];
+  let n: HTMLElement | null = el.parentElement;
+  while (n && n !== document.body && n !== document.documentElement) {
+    const cs = getComputedStyle(n);
+    if (/(auto|scroll|hidden|clip)/.test(cs.overflowX + cs.overflowY)) out.push(n);
+    n = n.parentElement || ((n.getRootNode() as ShadowRoot).host as HTMLElement | undefined) || null;
+  }
+  return out;
 }
@@ -0,0 +1,279 @@
+/* Opt-in conversation history (classic script, loaded before panel.js) */
+// Off by default, matching "no data is persisted": nothing is written until the
+// user ticks "Save history on this device". Conversations are stored per site
+// in chrome.storage.local; the current one is tied to the tab session through
+// sessionStorage so console reloads pick it back up.
+
+type Conversation = {
+  id: string;
+  site: string;
+  url: string;
+  title: string;
+  startedAt: number;
+  updatedAt: number;
+  messages: ChatMessage[];
+};
+
+type HistorySettings = { enabled: boolean; maxPerSite: number; maxAgeDays: number };
+
+const HISTORY_SETTINGS_KEY = "HISTORY_SETTINGS";
+const HISTORY_PREFIX = "HISTORY:";
+const HISTORY_SESSION_KEY = "aws-assist-conversation";
+const HISTORY_DEFAULTS: HistorySettings = { enabled: false, maxPerSite: 20, maxAgeDays: 30 };
+
+let historySettings: HistorySettings = { ...HISTORY_DEFAULTS };
+let historySaveTimer: number | null = null;
+
+function historySiteKey(site = location.hostname): string {
+  return `${HISTORY_PREFIX}${site}`;
+}
+
+async function loadHistorySettings(): Promise<HistorySettings> {
+  try {
+    const data = await chrome.storage.local.get(HISTORY_SETTINGS_KEY);
+    historySettings = { ...HISTORY_DEFAULTS, ...(data?.[HISTORY_SETTINGS_KEY] || {}) };
+  } catch (_) { /* keep defaults */ }
+  return historySettings;
+}
+
+async function saveHistorySettings(patch: Partial<HistorySettings>) {
+  historySettings = { ...historySettings, ...patch };
+  try { await chrome.storage.local.set({ [HISTORY_SETTINGS_KEY]: historySettings }); } catch (_) { /* ignore */ }
+}
+
+async function listConversations(site = location.hostname): Promise<Conversation[]> {
+  try {
+    const key = historySiteKey(site);
+    const data = await chrome.storage.local.get(key);
+    const list = (data?.[key] as Conversation[]) || [];
+    return list.sort((a, b) => b.updatedAt - a.updatedAt);
+  } catch (_) {
+    return [];
+  }
+}
+
+async function writeConversations(list: Conversation[], site = location.hostname) {
+  const key = historySiteKey(site);
+  try {
+    if (list.length) await chrome.storage.local.set({ [key]: list });
+    else await chrome.storage.local.remove(key);
+  } catch (_) { /* ignore */ }
+}
+
+// Retention: newest maxPerSite conversations, none older than maxAgeDays
+function pruneConversations(list: Conversation[]): Conversation[] {
+  const cutoff = Date.now() - historySettings.maxAgeDays * 86_400_000;
+  return list
+    .filter((c) => c.updatedAt >= cutoff)
+    .sort((a, b) => b.updatedAt - a.updatedAt)
+    .slice(0, Math.max(1, historySettings.maxPerSite));
+}
+
+function currentConversationId(create = true): string | null {
+  let id: string | null = null;
+  try { id = sessionStorage.getItem(HISTORY_SESSION_KEY); } catch (_) { /* sandboxed */ }
+  if (!id && create) {
+    id = `c-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+    try { sessionStorage.setItem(HISTORY_SESSION_KEY, id); } catch (_) { /* ignore */ }
+  }
+  return id;
+}
+
+// Start a fresh conversation in this tab (the old one stays in history)
+function resetConversation() {
+  try { sessionStorage.removeItem(HISTORY_SESSION_KEY); } catch (_) { /* ignore */ }
+}
+
+function useConversation(id: string) {
+  try { sessionStorage.setItem(HISTORY_SESSION_KEY, id); } catch (_) { /* ignore */ }
+}
+
+async function restoreConversation(): Promise<Conversation | null> {
+  if (!historySettings.enabled) return null;
+  const id = currentConversationId(false);
+  if (!id) return null;
+  return (await listConversations()).find((c) => c.id === id) || null;
+}
+
+// Debounced so a streamed answer doesn't write on every token
+function scheduleHistorySave(messages: ChatMessage[]) {
+  if (!historySettings.enabled || !messages.length) return;
+  if (historySaveTimer != null) clearTimeout(historySaveTimer);
+  const snapshot = messages.slice();
+  historySaveTimer = window.setTimeout(() => {
+    historySaveTimer = null;
+    saveConversation(snapshot);
+  }, 500);
+}
+
+async function saveConversation(messages: ChatMessage[]) {
+  // Another tab may have turned history off or wiped it since the save was scheduled
+  if (!(await loadHistorySettings()).enabled) return;
+  const id = currentConversationId()!;
+  const list = await listConversations();
+  const now = Date.now();
+  const existing = list.find((c) => c.id === id);
+  const title = (messages.find((m) => m.role === "user")?.content || "Conversation").slice(0, 80);
+  if (existing) Object.assign(existing, { messages, title, url: location.href, updatedAt: now });
+  else list.push({ id, site: location.hostname, url: location.href, title, startedAt: now, updatedAt: now, messages });
+  await writeConversations(pruneConversations(list));
+}
+
+async function deleteConversation(id: string) {
+  const list = await listConversations();
+  await writeConversations(list.filter((c) => c.id !== id));
+}
+
+// One action: every site's history plus the settings
+async function wipeAllHistory() {
+  try {
+    const all = await chrome.storage.local.get(null);
+    const keys = Object.keys(all || {}).filter((k) => k.startsWith(HISTORY_PREFIX));
+    await chrome.storage.local.remove([...keys, HISTORY_SETTINGS_KEY]);
+  } catch (_) { /* ignore */ }
+  historySettings = { ...HISTORY_DEFAULTS };
+  cancelHistorySave();
+  resetConversation();
+}
+
+function cancelHistorySave() {
+  if (historySaveTimer != null) clearTimeout(historySaveTimer);
+  historySaveTimer = null;
+}
+
+// Keep every tab in step with the others: settings changes, wipes and deletions
+chrome.storage.onChanged.addListener((changes, area) => {
+  if (area !== "local") return;
+  const settings = changes[HISTORY_SETTINGS_KEY];
+  if (settings) {
+    historySettings = { ...HISTORY_DEFAULTS, ...(settings.newValue || {}) };
+    if (!historySettings.enabled) cancelHistorySave();
+  }
+  // This tab's conversation was deleted elsewhere: don't write it back
+  const site = changes[historySiteKey()];
+  const current = currentConversationId(false);
+  if (site && current && !((site.newValue as Conversation[] | undefined) || []).some((c) => c.id === current)
+    && ((site.oldValue as Conversation[] | undefined) || []).some((c) => c.id === current)) {
+    cancelHistorySave();
+    resetConversation();
+  }
+});
+
+function conversationToMarkdown(c: Conversation): string {
+  const lines = [
+    `# ${c.title}`,
+    "",
+    `- Site: ${c.site}`,
+    `- URL: ${c.url}`,
+    `- Started: ${new Date(c.startedAt).toISOString()}`,
+    ""
+  ];
+  for (const m of c.messages) {
+    if (m.role === "system") continue;
+    lines.push(`## ${m.role === "user" ? "You" : "Assistant"}`, "", m.content, "");
+  }
+  return lines.join("\n");
+}
+
+function exportConversation(c: Conversation, format: "md" | "json") {
+  const body = format === "md" ? conversationToMarkdown(c) : JSON.stringify(c, null, 2);
+  const blob = new Blob([body], { type: format === "md" ? "text/markdown" : "application/json" });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = `aws-assist-${c.site}-${new Date(c.startedAt).toISOString().slice(0, 10)}.${format}`;
+  getUiRoot().appendChild(a);
+  a.click();
+  a.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+// History view rendered into the panel's .aws-assist-history section
+async function renderHistoryView(view: HTMLDivElement, onOpen: (c: Conversation) => void) {
+  view.innerHTML = "";
+  const settingsRow = document.createElement("div");
+  settingsRow.className = "aws-assist-history-settings";
+  const enableLabel = document.createElement("label");
+  const enable = document.createElement("input");
+  enable.type = "checkbox";
+  enable.checked = historySettings.enabled;
+  enableLabel.append(enable, document.createTextNode(" Save history on this device"));
+  enable.onchange = async () => {
+    await saveHistorySettings({ enabled: enable.checked });
+    renderHistoryView(view, onOpen);
+  };
+
+  const keep = document.createElement("label");
+  const maxInput = document.createElement("input");
+  maxInput.type = "number";
+  maxInput.min = "1";
+  maxInput.value = String(historySettings.maxPerSite);
+  const ageInput = document.createElement("input");
+  ageInput.type = "number";
+  ageInput.min = "1";
+  ageInput.value = String(historySettings.maxAgeDays);
+  keep.append("Keep ", maxInput, " per site, ", ageInput, " days");
+  const onRetention = async () => {
+    await saveHistorySettings({
+      maxPerSite: Math.max(1, parseInt(maxInput.value, 10) || HISTORY_DEFAULTS.maxPerSite),
+      maxAgeDays: Math.max(1, parseInt(ageInput.value, 10) || HISTORY_DEFAULTS.maxAgeDays)
+    });
+    await writeConversations(pruneConversations(await listConversations()));
+    renderHistoryView(view, onOpen);
+  };
+  maxInput.onchange = onRetention;
+  ageInput.onchange = onRetention;
+
+  const wipe = document.createElement("button");
+  wipe.textContent = "Wipe all history";
+  wipe.onclick = async () => {
+    await wipeAllHistory();
+    renderHistoryView(view, onOpen);
+  };
+  settingsRow.append(enableLabel, keep, wipe);
+  view.appendChild(settingsRow);
+
+  const list = await listConversations();
+  if (!list.length) {
+    const empty = document.createElement("div");
+    empty.className = "aws-assist-msg system";
+    empty.textContent = historySettings.enabled
+      ? `No saved conversations for ${location.hostname} yet.`
+      : "History is off. Nothing is saved unless you enable it.";
+    view.appendChild(empty);
+    return;
+  }
+  const current = currentConversationId(false);
+  for (const c of list) {
+    const row = document.createElement("div");
+    row.className = "aws-assist-history-item";
+    if (c.id === current) row.setAttribute("data-current", "1");
+    const info = document.createElement("div");
+    info.className = "aws-assist-history-info";
+    const title = document.createElement("strong");
+    title.textContent = c.title;
+    const meta = document.createElement("span");
+    meta.textContent = `${new Date(c.updatedAt).toLocaleString()} · ${c.messages.length} messages`;
+    info.append(title, meta);
+    const open = document.createElement("button");
+    open.textContent = "Open";
+    open.onclick = () => onOpen(c);
+    const md = document.createElement("button");
+    md.textContent = "MD";
+    md.title = "Export as Markdown";
+    md.onclick = () => exportConversation(c, "md");
+    const json = document.createElement("button");
+    json.textContent = "JSON";
+    json.title = "Export as JSON";
+    json.onclick = () => exportConversation(c, "json");
+    const del = document.createElement("button");
+    del.textContent = "Delete";
+    del.onclick = async () => {
+      await deleteConversation(c.id);
+      if (c.id === current) resetConversation();
+      renderHistoryView(view, onOpen);
+    };
+    row.append(info, open, md, json, del);
+    view.appendChild(row);
+  }
+}
@@ -0,0 +1,252 @@
+/* Markdown for assistant messages (classic script, loaded before panel.js) */
+// Builds DOM nodes only (never innerHTML), so model output can't inject markup.
+// Covers what answers use: headings, lists, quotes, rules, paragraphs, inline
+// code, bold/italic, links (new tab, http/https/mailto only) and fenced code
+// with a language tag and a Copy button. Re-rendering while tokens stream in
+// keeps the blocks that haven't changed and rebuilds only from the first one
+// that did, usually just the last.
+
+type MdBlock =
+  | { kind: "code"; src: string; lang: string; code: string; closed: boolean }
+  | { kind: "heading"; src: string; level: number; text: string }
+  | { kind: "list"; src: string; items: MdListItem[]; ordered: boolean; start: number }
+  | { kind: "quote"; src: string; text: string }
+  | { kind: "rule"; src: string }
+  | { kind: "para"; src: string; text: string };
+type MdListItem = { text: string; depth: number };
+
+// A fenced block may render as something else (panel.ts turns action JSON into a chip)
+type MdOptions = { codeBlock?: (lang: string, code: string, closed: boolean) => HTMLElement | null };
+
+const MD_RENDERED = new WeakMap<HTMLElement, { blocks: string[]; nodes: Node[] }>();
+
+const MD_FENCE = /^ {0,3}(`{3,}|~{3,})\s*([\w+#.-]*)/;
+const MD_HEADING = /^ {0,3}(#{1,6})\s+(.*?)\s*#*\s*$/;
+const MD_LIST_ITEM = /^(\s*)([-*+]|\d{1,9}[.)])\s+(.*)$/;
+const MD_RULE = /^ {0,3}([-*_])(\s*\1){2,}\s*$/;
+const MD_QUOTE = /^ {0,3}>\s?(.*)$/;
+
+function parseMarkdownBlocks(text: string): MdBlock[] {
+  const lines = text.replace(/\r\n?/g, "\n").split("\n");
+  const blocks: MdBlock[] = [];
+  let i = 0;
+  while (i < lines.length) {
+    const line = lines[i];
+    if (!line.trim()) { i++; continue; }
+    const start = i;
+    const src = () => lines.slice(start, i).join("\n");
+
+    const fence = line.match(MD_FENCE);
+    if (fence) {
+      const marker = fence[1];
+      const body: string[] = [];
+      let closed = false;
+      for (i++; i < lines.length; i++) {
+        if (lines[i].trim().startsWith(marker[0].repeat(marker.length)) && !lines[i].trim().replace(/[`~]/g, "")) {
+          closed = true;
+          i++;
+          break;
+        }
+        body.push(lines[i]);
+      }
+      blocks.push({ kind: "code", src: src(), lang: fence[2].toLowerCase(), code: body.join("\n"), closed });
+      continue;
+    }
+    const heading = line.match(MD_HEADING);
+    if (heading) {
+      i++;
+      blocks.push({ kind: "heading", src: src(), level: heading[1].length, text: heading[2] });
+      continue;
+    }
+    if (MD_RULE.test(line)) {
+      i++;
+      blocks.push({ kind: "rule", src: src() });
+      continue;
+    }
+    if (MD_QUOTE.test(line)) {
+      const quoted: string[] = [];
+      for (; i < lines.length && MD_QUOTE.test(lines[i]); i++) quoted.push(lines[i].match(MD_QUOTE)![1]);
+      blocks.push({ kind: "quote", src: src(), text: quoted.join("\n") });
+      continue;
+    }
+    const first = line.match(MD_LIST_ITEM);
+    if (first) {
+      const ordered = /\d/.test(first[2]);
+      const items: MdListItem[] = [];
+      const base = first[1].length;
+      for (; i < lines.length; i++) {
+        const l = lines[i];
+        const m = l.match(MD_LIST_ITEM);
+        if (m && (m[1].length > base || /\d/.test(m[2]) === ordered)) {
+          items.push({ text: m[3], depth: Math.min(3, Math.floor(Math.max(0, m[1].length - base) / 2)) });
+        } else if (l.trim() && /^\s+/.test(l) && items.length) {
+          items[items.length - 1].text += `\n${l.trim()}`; // continuation line
+        } else if (!l.trim() && lines[i + 1]?.match(MD_LIST_ITEM)) {
+          continue; // loose list: a blank line between items
+        } else break;
+      }
+      blocks.push({ kind: "list", src: src(), items, ordered, start: ordered ? parseInt(first[2], 10) || 1 : 1 });
+      continue;
+    }
+    for (i++; i < lines.length; i++) {
+      const l = lines[i];
+      if (!l.trim() || MD_FENCE.test(l) || MD_HEADING.test(l) || MD_QUOTE.test(l) || MD_LIST_ITEM.test(l) || MD_RULE.test(l)) break;
+    }
+    blocks.push({ kind: "para", src: src(), text: src() });
+  }
+  return blocks;
+}
+
+// Render text into el, reusing the nodes of unchanged leading blocks
+function renderMarkdown(el: HTMLElement, text: string, opts: MdOptions = {}) {
+  const blocks = parseMarkdownBlocks(text);
+  const prev = MD_RENDERED.get(el);
+  let keep = 0;
+  if (prev) {
+    // The last block of the previous render may still have been growing
+    const stable = Math.min(prev.blocks.length - 1, blocks.length);
+    while (keep < stable && prev.blocks[keep] === blocks[keep].src) keep++;
+    for (const n of prev.nodes.slice(keep)) n.parentNode?.removeChild(n);
+  } else {
+    el.textContent = "";
+  }
+  const nodes = prev ? prev.nodes.slice(0, keep) : [];
+  for (const b of blocks.slice(keep)) {
+    const node = renderMdBlock(b, opts);
+    el.appendChild(node);
+    nodes.push(node);
+  }
+  MD_RENDERED.set(el, { blocks: blocks.map((b) => b.src), nodes });
+}
+
+function renderMdBlock(b: MdBlock, opts: MdOptions): HTMLElement {
+  switch (b.kind) {
+    case "code": return opts.codeBlock?.(b.lang, b.code, b.closed) || renderCodeBlock(b.lang, b.code);
+    case "heading": {
+      const h = document.createElement(`h${Math.min(6, b.level + 2)}`); // h1 in a chat bubble is too loud
+      h.className = "aws-assist-md-h";
+      appendInline(h, b.text);
+      return h;
+    }
+    case "rule": return document.createElement("hr");
+    case "quote": {
+      const q = document.createElement("blockquote");
+      appendInline(q, b.text);
+      return q;
+    }
+    case "list": return renderList(b.items, b.ordered, b.start);
+    case "para": {
+      const p = document.createElement("p");
+      appendInline(p, b.text);
+      return p;
+    }
+  }
+}
+
+function renderList(items: MdListItem[], ordered: boolean, start: number): HTMLElement {
+  const root = document.createElement(ordered ? "ol" : "ul");
+  if (ordered && start !== 1) (root as HTMLOListElement).start = start;
+  // stack[d] is the open list at depth d
+  const stack: HTMLElement[] = [root];
+  for (const item of items) {
+    while (stack.length - 1 > item.depth) stack.pop();
+    while (stack.length - 1 < item.depth) {
+      const parentItem = stack[stack.length - 1].lastElementChild || stack[stack.length - 1].appendChild(document.createElement("li"));
+      const sub = parentItem.appendChild(document.createElement(ordered ? "ol" : "ul"));
+      stack.push(sub);
+    }
+    const li = document.createElement("li");
+    appendInline(li, item.text);
+    stack[stack.length - 1].appendChild(li);
+  }
+  return root;
+}
+
+function renderCodeBlock(lang: string, code: string): HTMLElement {
+  const wrap = document.createElement("div");
+  wrap.className = "aws-assist-code";
+  const head = document.createElement("div");
+  head.className = "aws-assist-code-head";
+  const label = document.createElement("span");
+  label.textContent = lang || "code";
+  const copy = document.createElement("button");
+  copy.textContent = "Copy";
+  copy.onclick = async () => {
+    copy.textContent = (await copyText(code)) ? "Copied" : "Copy failed";
+    setTimeout(() => { copy.textContent = "Copy"; }, 1500);
+  };
+  head.append(label, copy);
+  const pre = document.createElement("pre");
+  const codeEl = document.createElement("code");
+  codeEl.textContent = code;
+  pre.appendChild(codeEl);
+  wrap.append(head, pre);
+  return wrap;
+}
+
+// The async clipboard needs a focused, secure page; fall back to a hidden textarea
+async function copyText(text: string): Promise<boolean> {
+  try {
+    await navigator.clipboard.writeText(text);
+    return true;
+  } catch (_) {
+    const area = document.createElement("textarea");
+    area.value = text;
+    area.style.position = "fixed";
+    area.style.opacity = "0";
+    document.body.appendChild(area);
+    area.select();
+    const ok = document.execCommand("copy");
+    area.remove();
+    return ok;
+  }
+}
+
+// `code`, **bold**, *italic*, [text](url), bare URLs; newlines become <br>
+const MD_INLINE = /`([^`\n]+)`|\*\*(?=\S)([\s\S]*?\S)\*\*|__(?=\S)([\s\S]*?\S)__|\*(?=[^\s*])([^*\n]*?[^\s*])\*|(?<![\w])_(?=\S)([^_\n]*?\S)_(?![\w])|\[([^\]\n]+)\]\(([^)\s]+)\)|(https?:\/\/[^\s<>()]+[^\s<>().,;:!?'"])/g;
+
+function appendInline(parent: HTMLElement, text: string) {
+  let last = 0;
+  for (const m of text.matchAll(MD_INLINE)) {
+    appendText(parent, text.slice(last, m.index));
+    last = m.index! + m[0].length;
+    if (m[1] !== undefined) {
+      const c = document.createElement("code");
+      c.textContent = m[1];
+      parent.appendChild(c);
+    } else if (m[2] !== undefined || m[3] !== undefined) {
+      const s = document.createElement("strong");
+      appendInline(s, m[2] ?? m[3]);
+      parent.appendChild(s);
+    } else if (m[4] !== undefined || m[5] !== undefined) {
+      const e = document.createElement("em");
+      appendInline(e, m[4] ?? m[5]);
+      parent.appendChild(e);
+    } else if (m[6] !== undefined) {
+      parent.appendChild(mdLink(m[7], m[6]));
+    } else {
+      parent.appendChild(mdLink(m[8], m[8]));
+    }
+  }
+  appendText(parent, text.slice(last));
+}
+
+function appendText(parent: HTMLElement, text: string) {
+  text.split("\n").forEach((part, i) => {
+    if (i) parent.appendChild(document.createElement("br"));
+    if (part) parent.appendChild(document.createTextNode(part));
+  });
+}
+
+// Anything but http(s) and mailto (javascript:, data:, relative paths) stays plain text
+function mdLink(href: string, text: string): Node {
+  let url: URL | null = null;
+  try { url = new URL(href); } catch (_) { /* not absolute */ }
+  if (!url || !/^(https?|mailto):$/.test(url.protocol)) return document.createTextNode(text === href ? text : `${text} (${href})`);
+  const a = document.createElement("a");
+  a.href = url.href;
+  a.target = "_blank";
+  a.rel = "noopener noreferrer";
+  a.textContent = text;
+  return a;
+}
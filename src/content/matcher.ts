@@ -0,0 +1,144 @@
+/* Text matching for element search (classic script, loaded before panel.js) */
+// Folds case and diacritics ("Șterge" == "sterge"), reads every name an element
+// goes by (text, aria-label/labelledby, <label for>, placeholder, button value,
+// alt, title) and scores a query against them: exact > phrase > synonym > fuzzy
+// (typos like "Creat role"). Each score comes with the reason it matched.
+
+type MatchReason = "exact" | "phrase" | "synonym" | "fuzzy";
+type LabelSource = "text" | "aria-label" | "labelledby" | "label" | "placeholder" | "value" | "alt" | "title";
+type ElementLabel = { source: LabelSource; text: string; folded: string };
+type LabelMatch = { score: number; reason: MatchReason; source: LabelSource; label: string };
+
+const MATCH_CONFIDENT = 0.6;  // below this a match is only offered as "Did you mean …?"
+const MATCH_SUGGEST = 0.4;    // below this it is not a match at all
+const MATCH_FUZZY_MAX_LABEL = 120; // longer texts (containers) only match by phrase
+
+// Words the same control goes by; Romanian entries are folded already
+const MATCH_SYNONYMS: string[][] = [
+  ["create", "new", "add", "creeaza", "adauga"],
+  ["delete", "remove", "sterge", "elimina"],
+  ["search", "find", "cauta", "filter"],
+  ["settings", "preferences", "options", "setari", "configure"],
+  ["edit", "modify", "change", "modifica"],
+  ["save", "apply", "salveaza"],
+  ["cancel", "dismiss", "anuleaza"],
+  ["close", "x", "inchide"],
+  ["sign in", "log in", "login", "autentificare"],
+  ["sign out", "log out", "logout"],
+  ["next", "continue", "urmatorul"],
+  ["back", "previous", "inapoi"],
+  ["refresh", "reload"]
+];
+
+function foldText(s: string): string {
+  return s.normalize("NFD").replace(/\p{M}/gu, "").toLowerCase().replace(/[^\p{L}\p{N}]+/gu, " ").trim();
+}
+
+function elementLabels(el: HTMLElement, withText = true): ElementLabel[] {
+  const out: ElementLabel[] = [];
+  const add = (source: LabelSource, text: string | null | undefined) => {
+    const t = (text || "").replace(/\s+/g, " ").trim();
+    const folded = t && foldText(t);
+    if (folded) out.push({ source, text: t, folded });
+  };
+  // Containers repeat their children's text; a phrase that far in belongs to a child
+  if (withText) add("text", (el.textContent || "").slice(0, 1000));
+  add("aria-label", el.getAttribute("aria-label"));
+  const labelledBy = (el.getAttribute("aria-labelledby") || "").split(/\s+/).filter(Boolean);
+  if (labelledBy.length) add("labelledby", labelledBy.map((id) => el.ownerDocument.getElementById(id)?.textContent || "").join(" "));
+  const labels = (el as HTMLInputElement).labels;
+  if (labels) for (const l of Array.from(labels)) add("label", l.textContent);
+  add("placeholder", el.getAttribute("placeholder"));
+  if (el.tagName === "INPUT" && /^(submit|button|reset)$/i.test((el as HTMLInputElement).type)) add("value", (el as HTMLInputElement).value);
+  add("alt", el.getAttribute("alt"));
+  // Image buttons: <button><img alt="Delete"></button>
+  if (el.tagName === "BUTTON" || el.tagName === "A" || el.getAttribute("role") === "button") {
+    add("alt", el.querySelector("img[alt]")?.getAttribute("alt"));
+  }
+  add("title", el.getAttribute("title"));
+  return out;
+}
+
+function synonymsOf(word: string): string[] {
+  return MATCH_SYNONYMS.find((g) => g.includes(word)) || [word];
+}
+
+// "delete user" finds "Remove user", "sign in" finds "Log in"
+function synonymPhrase(q: string, l: string): boolean {
+  for (const group of MATCH_SYNONYMS) {
+    for (const word of group) {
+      if (!` ${q} `.includes(` ${word} `)) continue;
+      for (const alt of group) {
+        if (alt !== word && ` ${l} `.includes(` ${` ${q} `.replace(` ${word} `, ` ${alt} `).trim()} `)) return true;
+      }
+    }
+  }
+  return false;
+}
+
+// 1 for identical words, falling with edit distance; short words must match exactly
+function wordSimilarity(a: string, b: string): number {
+  if (a === b) return 1;
+  const len = Math.max(a.length, b.length);
+  if (Math.min(a.length, b.length) < 4) return 0;
+  if (Math.abs(a.length - b.length) > 2) return b.startsWith(a) ? a.length / b.length : 0;
+  return 1 - editDistance(a, b) / len;
+}
+
+function editDistance(a: string, b: string): number {
+  let prev = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const cur = [i];
+    for (let j = 1; j <= b.length; j++) {
+      cur[j] = Math.min(prev[j] + 1, cur[j - 1] + 1, prev[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    prev = cur;
+  }
+  return prev[b.length];
+}
+
+// Score a folded query against one label; null when nothing lines up
+function scoreLabel(q: string, { source, text: label, folded: l }: ElementLabel, strict: boolean): LabelMatch | null {
+  if (!q || !l) return null;
+  if (l === q) return { score: 1, reason: "exact", source, label };
+  if (` ${l} `.includes(` ${q} `)) return { score: 0.9 - Math.min(0.2, (l.length - q.length) / 400), reason: "phrase", source, label };
+  if (strict) return null;
+  if (l.includes(q)) return { score: 0.75, reason: "phrase", source, label };
+  if (synonymPhrase(q, l)) return { score: 0.85, reason: "synonym", source, label };
+  if (l.length > MATCH_FUZZY_MAX_LABEL) return null;
+
+  const qWords = q.split(" ");
+  const lWords = l.split(" ");
+  let synonymUsed = false;
+  let total = 0;
+  for (const w of qWords) {
+    let best = 0;
+    for (const lw of lWords) {
+      const direct = wordSimilarity(w, lw);
+      const viaSynonym = direct < 1 && synonymsOf(w).includes(lw) ? 0.95 : 0;
+      if (viaSynonym > direct && viaSynonym > best) synonymUsed = true;
+      best = Math.max(best, direct, viaSynonym);
+    }
+    total += best >= 0.7 ? best : 0;
+  }
+  // Extra label words count against the match, gently
+  const coverage = total / qWords.length;
+  const score = coverage * 0.85 * Math.min(1, (qWords.length + 2) / (lWords.length + 1));
+  if (score < MATCH_SUGGEST) return null;
+  return { score, reason: synonymUsed ? "synonym" : "fuzzy", source, label };
+}
+
+function bestLabelMatch(labels: ElementLabel[], foldedQuery: string, strict: boolean): LabelMatch | null {
+  let best: LabelMatch | null = null;
+  for (const label of labels) {
+    const m = scoreLabel(foldedQuery, label, strict);
+    // Named sources beat the same score from descendant text
+    if (m && (!best || m.score > best.score || (m.score === best.score && best.source === "text"))) best = m;
+  }
+  return best;
+}
+
+function describeMatch(m: LabelMatch): string {
+  const where = m.source === "text" ? "" : ` (${m.source})`;
+  return `"${m.label.slice(0, 60)}"${where}, ${m.reason} match`;
+}
@@ -1,14 +1,71 @@
-// Placeholder OCR module; replace with Tesseract.js integration later.
-export async function captureAndOCR(): Promise<string[]> {
-  // Ask for tab/screen capture consent and return empty keyword list for now.
-  try {
-    // Minimal prompt to ensure user intent; real implementation would use getDisplayMedia
-    // and Tesseract to produce keywords only.
-    console.log("[aws-assist] OCR capture requested");
-    return [];
-  } catch (e) {
-    console.warn("[aws-assist] OCR capture failed", e);
-    return [];
+/* OCR hints for the content script (classic script, loaded before panel.js) */
+// The worker captures the visible tab and runs Tesseract in its offscreen
+// document; here we map word boxes back to page coordinates. Only the top
+// frame captures: the tab screenshot already includes every iframe's pixels.
+
+type OcrBox = { x: number; y: number; w: number; h: number };
+type OcrHint = { text: string; confidence: number; line: number; box: OcrBox }; // box in document CSS px
+
+const OCR_MIN_CONFIDENCE = 60;
+
+async function captureAndOCR(): Promise<OcrHint[]> {
+  const res: any = await new Promise((resolve) => {
+    chrome.runtime.sendMessage({ kind: "CAPTURE_OCR" }, (r: any) => resolve(r));
+  });
+  if (!res?.ok) throw new Error(res?.error || "OCR failed");
+
+  // The capture is the viewport at device pixel ratio; convert to CSS px and
+  // pin to the document so boxes stay valid after scrolling.
+  const scale = res.width ? res.width / window.innerWidth : window.devicePixelRatio || 1;
+  const sx = window.scrollX, sy = window.scrollY;
+  const hints: OcrHint[] = [];
+  for (const w of res.words || []) {
+    if (w.confidence < OCR_MIN_CONFIDENCE) continue;
+    if (!/[\p{L}\p{N}]/u.test(w.text)) continue; // punctuation noise
+    hints.push({
+      text: w.text,
+      confidence: w.confidence,
+      line: w.line,
+      box: { x: w.box.x / scale + sx, y: w.box.y / scale + sy, w: w.box.w / scale, h: w.box.h / scale }
+    });
   }
+  return hints;
+}
+
+function ocrKeywords(hints: OcrHint[]): string[] {
+  const words = hints.map((h) => h.text).filter((t) => t.length >= 2);
+  return Array.from(new Set(words));
 }
 
+// Boxes for a phrase: consecutive words on one OCR line are merged into one box
+function findOcrBoxes(hints: OcrHint[], text: string): OcrBox[] {
+  const norm = (s: string) => s.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, "");
+  const needle = (text || "").split(/\s+/).map(norm).filter(Boolean);
+  if (!needle.length) return [];
+
+  const lines = new Map<number, OcrHint[]>();
+  for (const h of hints) {
+    if (!lines.has(h.line)) lines.set(h.line, []);
+    lines.get(h.line)!.push(h);
+  }
+
+  const out: OcrBox[] = [];
+  for (const words of lines.values()) {
+    for (let i = 0; i + needle.length <= words.length; i++) {
+      let ok = true;
+      for (let j = 0; j < needle.length; j++) {
+        const w = norm(words[i + j].text);
+        // allow the last word to be a prefix match ("Create rol" -> "Create role")
+        if (j === needle.length - 1 ? !w.startsWith(needle[j]) : w !== needle[j]) { ok = false; break; }
+      }
+      if (!ok) continue;
+      const run = words.slice(i, i + needle.length).map((h) => h.box);
+      const x = Math.min(...run.map((b) => b.x));
+      const y = Math.min(...run.map((b) => b.y));
+      const r = Math.max(...run.map((b) => b.x + b.w));
+      const b = Math.max(...run.map((b) => b.y + b.h));
+      out.push({ x, y, w: r - x, h: b - y });
+    }
+  }
+  return out.slice(0, 6);
+}
@@ -0,0 +1,118 @@
+/* Read-only page tools for the model's tool loop (classic script, loaded before panel.js) */
+// The worker relays each call here as PAGE_TOOL and hands the data back to the
+// model; the summary is what the panel's trace shows. Nothing here changes the
+// page, and elements come back with snapshot refs the model can target.
+
+type PageToolResult = { ok: boolean; summary: string; data: unknown };
+// Arguments as background/pageTools.ts declares them; the worker has already
+// checked each call against that schema
+type FindArgs = { query: string; role?: string; limit?: number };
+type ReadTextArgs = { ref?: string; heading?: string; max_chars?: number };
+type FormFieldArgs = { ref?: string };
+
+function runPageTool(name: string, args: unknown): PageToolResult {
+  try {
+    const a = (args || {}) as Record<string, unknown>;
+    switch (name) {
+      case "find_elements": return pageToolFind(a as FindArgs);
+      case "read_text": return pageToolReadText(a as ReadTextArgs);
+      case "list_form_fields": return pageToolFormFields(a as FormFieldArgs);
+      case "get_page_info": return pageToolInfo();
+      default: return { ok: false, summary: `unknown tool ${name}`, data: { error: `unknown tool ${name}` } };
+    }
+  } catch (e: any) {
+    const error = String(e?.message || e);
+    return { ok: false, summary: `failed: ${error}`, data: { error } };
+  }
+}
+
+function clampInt(v: unknown, fallback: number, max: number): number {
+  const n = Math.round(Number(v));
+  return Number.isFinite(n) && n > 0 ? Math.min(n, max) : fallback;
+}
+
+function pageToolFind(args: FindArgs): PageToolResult {
+  const limit = clampInt(args.limit, 8, 20);
+  const res = rankElements({ text: String(args.query || ""), role: args.role }, { clickableOnly: false });
+  const elements = res.matches.slice(0, limit).map((m) => ({
+    ...snapshotDescribe(m.el),
+    ...(m.match ? { matched: describeMatch(m.match) } : {})
+  }));
+  const note = res.partial ? " (page only partly searched)" : "";
+  return { ok: true, summary: `${elements.length} match(es)${note}`, data: { elements, partial: res.partial } };
+}
+
+function pageToolRegion(args: ReadTextArgs): HTMLElement | null {
+  if (args.ref) return resolveSnapshotRef(String(args.ref));
+  if (args.heading) {
+    const wanted = foldText(String(args.heading));
+    const headings = Array.from(document.querySelectorAll<HTMLElement>('h1, h2, h3, h4, h5, h6, [role="heading"]'));
+    const h = headings.find((el) => el.offsetWidth && foldText(el.textContent || "").includes(wanted));
+    if (!h) return null;
+    return h.closest<HTMLElement>('section, article, form, fieldset, [role="region"], [role="dialog"]') || h.parentElement;
+  }
+  return document.querySelector<HTMLElement>('main, [role="main"]') || document.body;
+}
+
+function pageToolReadText(args: ReadTextArgs): PageToolResult {
+  const region = pageToolRegion(args);
+  if (!region) {
+    const what = args.ref ? `ref ${args.ref}` : `heading "${args.heading}"`;
+    return { ok: false, summary: `${what} not found`, data: { error: `${what} is not on the page (any more)` } };
+  }
+  const max = clampInt(args.max_chars, 1500, 4000);
+  // innerText skips hidden text and, like every page scan, never enters the panel's closed root
+  const raw = (region.innerText || "").replace(/[ \t]+/g, " ").replace(/\n{3,}/g, "\n\n").trim();
+  const text = pageToolMaskText(raw);
+  const truncated = text.length > max;
+  return {
+    ok: true,
+    summary: `${Math.min(text.length, max)} chars${truncated ? " (truncated)" : ""}`,
+    data: { text: text.slice(0, max), truncated }
+  };
+}
+
+// Page text can show secrets outright (the "access key created" page, a token in
+// a <pre>): mask what awsContext.js masks, values under a secret-sounding label
+// and long key-like strings, the way snapshot.ts masks secret fields
+function pageToolMaskText(text: string): string {
+  const lines = awsMask(text).split("\n"); // awsContext.js
+  let afterLabel = false;
+  return lines.map((line) => {
+    const trimmed = line.trim();
+    // "Secret access key: wJalr..." on one line
+    const inline = /^([^:]{1,60}):\s*(\S+)$/.exec(trimmed);
+    if (inline && AWS_SENSITIVE_NAME.test(inline[1])) { afterLabel = false; return `${inline[1]}: [masked]`; }
+    // The label on its own line, the value on the next one (tables, key/value lists)
+    if (afterLabel && trimmed && !/\s/.test(trimmed)) { afterLabel = false; return "[masked]"; }
+    afterLabel = trimmed.length > 0 && trimmed.length <= 60 && AWS_SENSITIVE_NAME.test(trimmed) ? true : afterLabel && !trimmed;
+    return line.replace(/[A-Za-z0-9+/_=-]{32,}/g, (run) => (/\d/.test(run) && /[A-Za-z]/.test(run) ? "[masked]" : run));
+  }).join("\n");
+}
+
+function pageToolFormFields(args: FormFieldArgs): PageToolResult {
+  const scope = args.ref ? resolveSnapshotRef(String(args.ref)) : document.body;
+  if (!scope) return { ok: false, summary: `ref ${args.ref} not found`, data: { error: `ref ${args.ref} is not on the page (any more)` } };
+  const controls = Array.from(scope.querySelectorAll<HTMLElement>(
+    'input:not([type="hidden"]):not([type="submit"]):not([type="button"]), textarea, select, [role="combobox"], [role="checkbox"], [role="switch"], [contenteditable="true"]'
+  )).filter((el) => el.offsetWidth && el.offsetHeight && !isAssistantNode(el));
+  const fields = controls.slice(0, 40).map((el) => {
+    const d = snapshotDescribe(el);
+    const sensitive = (el as HTMLInputElement).type === "password"
+      || AWS_SENSITIVE_NAME.test(`${d.name} ${(el as HTMLInputElement).name || ""} ${el.id}`); // awsContext.js
+    const states = sensitive ? d.states.map((st) => (st.startsWith("value=") ? 'value="[masked]"' : st)) : d.states;
+    return { ...d, states };
+  });
+  const more = controls.length > fields.length ? ` of ${controls.length}` : "";
+  return { ok: true, summary: `${fields.length}${more} field(s)`, data: { fields, total: controls.length } };
+}
+
+function pageToolInfo(): PageToolResult {
+  const h1 = Array.from(document.querySelectorAll<HTMLElement>("h1")).find((el) => el.offsetWidth);
+  const selected = (window.getSelection()?.toString() || "").trim().slice(0, 1000);
+  return {
+    ok: true,
+    summary: document.title || location.href,
+    data: { url: location.href, title: document.title, heading: h1?.textContent?.trim() || null, selectedText: selected || null }
+  };
+}
@@ -1,167 +1,121 @@
 /* Floating panel + messaging + action protocol (no ES modules in content scripts) */
-// Inline utilities instead of imports to avoid 'export' errors in content scripts.
+// Inline utilities instead of imports to avoid 'export' errors in content scripts;
+// larger pieces live in sibling classic scripts listed before this one in the manifest.
 
-type FindQuery = { text?: string; role?: string };
-type FindOpts = { strict?: boolean; clickableOnly?: boolean };
+type FindQuery = { text?: string; role?: string; ref?: string };
+type FindOpts = { strict?: boolean; clickableOnly?: boolean; budgetMs?: number };
 
 function findCandidates(q: FindQuery, opts: FindOpts = {}): HTMLElement[] {
-  const text = q.text?.toLowerCase().trim();
-  const role = q.role?.toLowerCase().trim();
-  const strict = !!opts.strict;
-  const clickableOnly = opts.clickableOnly !== false;
-
-  // Special semantic/icon queries (e.g., magnifier/magnifying glass)
-  const iconTargets = findSemanticTargets(text || "");
-  if (iconTargets.length) return iconTargets;
-
-  const nodes = allElements();
-  const vw = Math.max(document.documentElement.clientWidth, window.innerWidth || 0);
-  const vh = Math.max(document.documentElement.clientHeight, window.innerHeight || 0);
-  const maxArea = vw * vh * 0.5; // avoid huge wrappers more aggressively
-  const minArea = 12; // skip tiny noise elements
-  const shortText = !!text && text.length <= 3;
-
-  type Scored = { el: HTMLElement; score: number; area: number };
-  const scored: Scored[] = [];
-  for (const el of nodes) {
-    if (!(el.offsetWidth && el.offsetHeight)) continue; // visible
-    const r = el.getBoundingClientRect();
-    const area = Math.max(1, r.width * r.height);
-    if (area > maxArea || area < minArea) continue; // skip huge or tiny
-
-    const roleAttr = (el.getAttribute("role") || "").toLowerCase();
-    const aria = (el.getAttribute("aria-label") || "").toLowerCase();
-    const title = (el.getAttribute("title") || "").toLowerCase();
-    const labelText = (el.textContent || "").trim().toLowerCase();
-
-    const clickable = isClickable(el);
-
-    // Short text should only match clickables to reduce noise
-    if ((shortText || clickableOnly) && !clickable) continue;
-
-    // Role constraint if provided
-    if (role) {
-      const roleOk = roleAttr === role ||
-        (role === "button" && (el.tagName === "BUTTON" || el.getAttribute("type") === "button")) ||
-        (role === "link" && el.tagName === "A");
-      if (!roleOk) continue;
-    }
-
-    let score = 0;
-    if (!text) score += 1; // no text query, allow through
-    else {
-      const direct = strict ? includePhrase(labelText, text) : labelText.includes(text);
-      const meta = strict ? includePhrase(aria, text) || includePhrase(title, text) : (aria.includes(text) || title.includes(text));
-      if (direct) score += 6;
-      if (meta) score += 4;
-    }
-    if (clickable) score += 2;
-    if (role && roleAttr === role) score += 2;
-
-    // Prefer smaller targets when scores tie
-    if (score > 0) scored.push({ el, score: score - Math.log10(area), area });
+  // A snapshot ref names one element; if it is gone, text/role below is the fallback
+  if (q.ref) {
+    const el = resolveSnapshotRef(q.ref);
+    if (el) return [el];
   }
 
-  scored.sort((a, b) => b.score - a.score || a.area - b.area);
-  const picked: HTMLElement[] = [];
-  const boxes: DOMRect[] = [];
-  for (const s of scored) {
-    const rect = s.el.getBoundingClientRect();
-    let overlap = false;
-    for (const b of boxes) {
-      if (rectsOverlap(rect, b)) { overlap = true; break; }
-    }
-    if (!overlap) {
-      picked.push(s.el);
-      boxes.push(rect);
-    }
-    if (picked.length >= 12) break; // cap
+  // A query that only names an icon ("search", "gear icon") goes to the icon vocabulary first
+  const icon = matchIconKey(q.text || "");
+  if (icon?.whole) {
+    const iconTargets = findIconTargets(icon.key);
+    if (iconTargets.length) return iconTargets;
   }
-  return picked;
-}
 
-function includePhrase(hay: string, needle: string) {
-  const norm = (s: string) => s.replace(/\s+/g, ' ').trim();
-  return norm(hay).includes(norm(needle));
+  const result = rankElements(q, opts);
+  lastSearch = result;
+  const confident = result.matches
+    .filter((m) => !m.match || m.match.score >= MATCH_CONFIDENT)
+    .map((m) => m.el);
+  // An icon word inside a longer label ("Create pull request") only helps when nothing else matched
+  if (!confident.length && icon && !icon.whole) return findIconTargets(icon.key);
+  return confident;
 }
 
-function allElements(): HTMLElement[] {
-  const out: HTMLElement[] = [];
-  const pushTree = (root: Node | ShadowRoot) => {
-    const walker = document.createTreeWalker(root as Node, NodeFilter.SHOW_ELEMENT);
-    let n = walker.currentNode as Element | null;
-    while (n) {
-      out.push(n as HTMLElement);
-      const any = n as any;
-      if (any.shadowRoot) pushTree(any.shadowRoot);
-      n = walker.nextNode() as Element | null;
-    }
-  };
-  pushTree(document);
-  return out;
-}
+// The latest search, so a miss on a huge page can say it ran out of time
+let lastSearch: SearchResult | null = null;
 
-function isClickable(el: HTMLElement): boolean {
-  if (!el) return false;
-  const tag = el.tagName;
-  if (tag === 'A' || tag === 'BUTTON' || tag === 'INPUT' || tag === 'SELECT' || tag === 'TEXTAREA') return true;
-  const role = (el.getAttribute('role') || '').toLowerCase();
-  if (role === 'button' || role === 'link' || role === 'tab' || role === 'menuitem') return true;
-  const tabIndex = el.getAttribute('tabindex');
-  if (tabIndex && parseInt(tabIndex, 10) >= 0) return true;
-  return false;
+function searchCutNote(): string {
+  if (!lastSearch?.partial) return "";
+  return ` (the page is large; searched ${lastSearch.scanned} of ${lastSearch.total} elements before the time limit)`;
 }
 
-function rectsOverlap(a: DOMRect, b: DOMRect): boolean {
-  const xOverlap = Math.max(0, Math.min(a.right, b.right) - Math.max(a.left, b.left));
-  const yOverlap = Math.max(0, Math.min(a.bottom, b.bottom) - Math.max(a.top, b.top));
-  const overlapArea = xOverlap * yOverlap;
-  const minArea = Math.min(a.width * a.height, b.width * b.height);
-  return overlapArea / Math.max(1, minArea) > 0.7;
+// Weak matches for "Did you mean …?" when findCandidates came back empty
+function suggestCandidates(q: FindQuery, opts: FindOpts = {}): ElementMatch[] {
+  return rankElements(q, { ...opts, strict: false }).matches
+    .filter((m) => m.match && m.match.score < MATCH_CONFIDENT)
+    .slice(0, 3);
 }
 
-function findSemanticTargets(text: string): HTMLElement[] {
-  const t = (text || '').toLowerCase().trim();
-  if (!t) return [];
-
-  const iconMap: Record<string, string[]> = {
-    search: ['search', 'magnifier', 'magnifying glass', 'loupe', 'lupa', 'cauta', 'căut', 'caut'],
-    mic: ['mic', 'microphone', 'voice', 'vocal', 'microfon'],
-    camera: ['camera', 'image', 'photo', 'lens'],
-    keyboard: ['keyboard', 'input tools', 'virtual keyboard'],
-    clear: ['clear', 'x', 'close', 'remove', 'sterge', 'șterge'],
-    settings: ['settings', 'gear', 'preferences'],
-    apps: ['apps', 'grid', 'app launcher']
-  };
+// Words that name common icons on any site; site profiles add their own keys and words
+const BASE_ICONS: Record<string, string[]> = {
+  search: ['search', 'magnifier', 'magnifying glass', 'loupe', 'lupa', 'cauta', 'căut', 'caut'],
+  mic: ['mic', 'microphone', 'voice', 'vocal', 'microfon'],
+  camera: ['camera', 'image', 'photo', 'lens'],
+  keyboard: ['keyboard', 'input tools', 'virtual keyboard'],
+  clear: ['clear', 'x', 'close', 'remove', 'sterge', 'șterge'],
+  settings: ['settings', 'gear', 'preferences'],
+  apps: ['apps', 'grid', 'app launcher']
+};
+const BASE_SELECTORS: Record<string, string[]> = {
+  search: ['input[type="search"]', '[role="search"] input']
+};
 
-  function matchKey(): string | null {
-    for (const [key, words] of Object.entries(iconMap)) {
-      for (const w of words) {
-        if (t.includes(w)) return key;
-      }
+function iconVocabulary(): Record<string, string[]> {
+  const iconMap: Record<string, string[]> = { ...BASE_ICONS };
+  for (const [k, words] of Object.entries(PROFILE.icons)) iconMap[k] = (iconMap[k] || []).concat(words);
+  return iconMap;
+}
+
+// The icon a query names, by whole words or phrases of its vocabulary; `whole`
+// when the query is nothing but that name (plus "icon", "button", "the")
+function matchIconKey(text: string): { key: string; whole: boolean } | null {
+  const folded = foldText(text || "");
+  if (!folded) return null;
+  const bare = folded.replace(/\b(the|icon|button)\b/g, " ").replace(/\s+/g, " ").trim();
+  const iconMap = iconVocabulary();
+  // Profile keys first: "region" must not be taken for a generic word inside it
+  const keys = [...Object.keys(PROFILE.icons), ...Object.keys(BASE_ICONS).filter((k) => !(k in PROFILE.icons))];
+  for (const key of keys) {
+    for (const w of iconMap[key]) {
+      const word = foldText(w);
+      if (!word) continue;
+      if (bare === word) return { key, whole: true };
+      if (` ${folded} `.includes(` ${word} `)) return { key, whole: false };
     }
-    if (/icon\s*search|search\s*icon/.test(t)) return 'search';
-    return null;
   }
+  return null;
+}
+
+// Local intents name their icon directly ("search")
+function findSemanticTargets(text: string): HTMLElement[] {
+  const icon = matchIconKey(text);
+  return icon ? findIconTargets(icon.key) : [];
+}
 
-  const key = matchKey();
-  if (!key) return [];
+function findIconTargets(key: string): HTMLElement[] {
+  const iconMap = iconVocabulary();
+  const selectorsFor = (k: string) => (PROFILE.selectors[k] || []).concat(BASE_SELECTORS[k] || []);
 
   const candidates: HTMLElement[] = [];
   const push = (el: Element | null) => {
     if (!el) return;
     const e = el as HTMLElement;
-    if (!(e.offsetWidth && e.offsetHeight)) return;
+    if (!(e.offsetWidth && e.offsetHeight) || isAssistantNode(e)) return;
     const svg = e.querySelector('svg') as HTMLElement | null;
     const target = pickSmallerTarget(e, svg);
     candidates.push(target);
   };
+  const bySelectors = (sels: string[]) => {
+    for (const s of sels) {
+      try {
+        document.querySelectorAll<HTMLElement>(s).forEach((el) => push(el));
+      } catch (_) { /* invalid selector from a user profile */ }
+    }
+  };
 
   const byLabels = (words: string[]) => {
     for (const w of words) {
       const sel = `*[aria-label*="${w}" i], *[title*="${w}" i], *[data-tooltip*="${w}" i]`;
       document.querySelectorAll<HTMLElement>(sel).forEach((el) => {
-        if (!(el.offsetWidth && el.offsetHeight)) return;
+        if (!(el.offsetWidth && el.offsetHeight) || isAssistantNode(el)) return;
         if (!isClickable(el)) {
           const parent = el.closest('button, [role="button"], a, input');
           if (parent) el = parent as HTMLElement;
@@ -177,42 +131,16 @@ function findSemanticTargets(text: string): HTMLElement[] {
     }
   };
 
-  switch (key) {
-    case 'search': {
-      ['input[type="search"]', 'input[name="q"]', '[role="search"] input']
-        .forEach((s) => document.querySelectorAll<HTMLElement>(s).forEach((el) => push(el)));
-      byLabels(iconMap.search);
-      break;
-    }
-    case 'mic': {
-      byLabels(iconMap.mic.concat(['search by voice']));
-      break;
-    }
-    case 'camera': {
-      byLabels(iconMap.camera.concat(['search by image', 'google lens']));
-      break;
-    }
-    case 'keyboard': {
-      byLabels(iconMap.keyboard);
-      break;
-    }
-    case 'clear': {
-      byLabels(iconMap.clear);
-      // also try small buttons near the search input
-      document.querySelectorAll<HTMLElement>('input[name="q"], input[type="search"]').forEach((inp) => {
-        const btn = inp.parentElement?.querySelector('button,[role="button"]') as HTMLElement | null;
-        if (btn && btn.offsetWidth < 48 && btn.offsetHeight < 48) push(btn);
-      });
-      break;
-    }
-    case 'settings': {
-      byLabels(iconMap.settings);
-      break;
-    }
-    case 'apps': {
-      byLabels(iconMap.apps.concat(['google apps']));
-      break;
-    }
+  // Preferred selectors first, then anything labelled with the vocabulary
+  bySelectors(selectorsFor(key));
+  byLabels(iconMap[key]);
+  if (key === 'clear') {
+    // also try small buttons next to the search input
+    const searchSel = selectorsFor('search').join(', ');
+    document.querySelectorAll<HTMLElement>(searchSel).forEach((inp) => {
+      const btn = inp.parentElement?.querySelector('button,[role="button"]') as HTMLElement | null;
+      if (btn && btn.offsetWidth < 48 && btn.offsetHeight < 48) push(btn);
+    });
   }
 
   return Array.from(new Set(candidates)).slice(0, 6);
@@ -228,71 +156,60 @@ function pickSmallerTarget(root: HTMLElement, svg: HTMLElement | null): HTMLElem
   return root;
 }
 
-function normalizeTargets(input: Array<{ text?: string; role?: string }>): FindQuery[] {
-  return input.map((t) => ({ text: t.text?.trim(), role: t.role?.trim() }));
-}
-
-function highlightElements(els: HTMLElement[], label = "Target") {
-  cleanupHighlights();
-  els.forEach((el, idx) => {
-    const r = el.getBoundingClientRect();
-    const overlay = document.createElement("div");
-    overlay.className = "aws-assist-highlight";
-    Object.assign((overlay.style as any), {
-      position: "absolute",
-      left: `${r.left + window.scrollX}px`,
-      top: `${r.top + window.scrollY}px`,
-      width: `${r.width}px`,
-      height: `${r.height}px`,
-      outline: "3px solid #22c55e",
-      borderRadius: "8px",
-      zIndex: 2147483647,
-      pointerEvents: "none",
-      boxShadow: "0 0 0 4px rgba(34,197,94,0.2)",
-      animation: "awsAssistPulse 1.6s infinite"
-    });
-    const tag = document.createElement("div");
-    tag.textContent = `${label} ${idx + 1}`;
-    Object.assign((tag.style as any), {
-      position: "absolute",
-      top: "-28px",
-      left: "0",
-      padding: "4px 8px",
-      background: "#22c55e",
-      color: "white",
-      borderRadius: "6px",
-      fontSize: "12px",
-      fontFamily: "ui-sans-serif, system-ui"
-    });
-    overlay.appendChild(tag);
-    document.body.appendChild(overlay);
-    el.scrollIntoView({ block: "center", behavior: "smooth" });
+function normalizeTargets(input: Array<{ text?: string; role?: string; ref?: string }>): FindQuery[] {
+  return input.map((t) => {
+    const ref = typeof t.ref === "string" && /^e\d+$/.test(t.ref.trim()) ? t.ref.trim() : undefined;
+    // Remember what the ref was, so a re-rendered page can still be searched by text
+    const seen = ref ? snapshotEntry(ref) : null;
+    const role = t.role?.trim() || (seen && (seen.role === "button" || seen.role === "link") ? seen.role : undefined);
+    return { text: t.text?.trim() || seen?.name || undefined, role, ref };
   });
 }
 
-function cleanupHighlights() {
-  document.querySelectorAll(".aws-assist-highlight").forEach((n) => n.remove());
-}
-
-async function captureAndOCR(): Promise<string[]> {
-  // Stub for now; integrate Tesseract later
-  return [];
-}
-
 type ChatMessage = { role: "system" | "user" | "assistant"; content: string };
+type ContextBreakdown = {
+  system: number; summary: number; history: number; context: number; total: number;
+  summarizedMessages: number; droppedHints: number;
+};
 
 const STATE = {
   open: false,
   messages: [] as ChatMessage[],
   domHints: [] as string[],
-  ocrHints: [] as string[],
-  hasApiKey: false
+  ocrHints: [] as OcrHint[],
+  hasApiKey: false,
+  pendingId: null as string | null, // request currently queued or streaming
+  lastContext: null as ContextBreakdown | null, // token split of the last prompt the worker sent
+  lastRedacted: null as Record<string, number> | null, // placeholders in use for this tab, by kind
+  preview: false, // show the exact payload and wait for Send before each question
+  turnActions: [] as any[] // actions of the answer being streamed, for the history entry
 };
 
-const HOTKEY = { altKey: true, key: "j" } as const; // Alt+J
+let SITE_ENABLED = false; // off until GET_SETTINGS answers; then only where the popup turned it off
+
+// The part of the matching site profile the content side uses (background/profiles.ts)
+type LocalIntent = { match: string; steps: string[]; highlight?: string };
+type ProfileView = {
+  id: string;
+  name: string;
+  icons: Record<string, string[]>;
+  selectors: Record<string, string[]>;
+  panel: { title: string; placeholder: string };
+  intents: LocalIntent[];
+};
+// background/profiles.ts GENERIC, until the worker sends the profile for this page
+let PROFILE: ProfileView = {
+  id: "generic",
+  name: "Other sites",
+  icons: {},
+  selectors: {},
+  panel: { title: "Web Assistant", placeholder: "Ask about this page, or say 'highlight Sign in'..." },
+  intents: []
+};
 
 function createPanel() {
-  if (document.getElementById("aws-assist-panel")) return;
+  const root = getUiRoot();
+  if (root.getElementById("aws-assist-panel")) return;
   const panel = document.createElement("div");
   panel.id = "aws-assist-panel";
   panel.className = "aws-assist-panel";
@@ -300,7 +217,16 @@ function createPanel() {
   // header
   const header = document.createElement("div");
   header.className = "aws-assist-panel-header";
-  header.innerHTML = `<div class="aws-assist-panel-title">AWS Learning Assistant</div>`;
+  const title = document.createElement("div");
+  title.className = "aws-assist-panel-title";
+  title.textContent = PROFILE.panel.title;
+  const lockBtn = document.createElement("button");
+  lockBtn.className = "aws-assist-lock";
+  lockBtn.textContent = "🔒";
+  lockBtn.title = "Lock saved API keys";
+  lockBtn.style.display = "none";
+  lockBtn.addEventListener("mousedown", (e) => e.stopPropagation()); // not a drag
+  header.append(title, createSpeechControls(), lockBtn); // voice.js
   panel.appendChild(header);
 
   // chat area
@@ -308,6 +234,18 @@ function createPanel() {
   chat.className = "aws-assist-chat";
   panel.appendChild(chat);
 
+  // saved conversations (replaces the chat area while open)
+  const historyView = document.createElement("div");
+  historyView.className = "aws-assist-history";
+  historyView.style.display = "none";
+  panel.appendChild(historyView);
+
+  // guided tour controls (hidden until a tour runs)
+  const tourBar = document.createElement("div");
+  tourBar.className = "aws-assist-tour";
+  tourBar.style.display = "none";
+  panel.appendChild(tourBar);
+
   // toolbar
   const toolbar = document.createElement("div");
   toolbar.className = "aws-assist-toolbar";
@@ -324,6 +262,12 @@ function createPanel() {
   strictCb.type = "checkbox";
   strictWrap.appendChild(strictCb);
   strictWrap.appendChild(document.createTextNode("Strict"));
+  const previewWrap = strictWrap.cloneNode(false) as HTMLLabelElement;
+  const previewCb = document.createElement("input");
+  previewCb.type = "checkbox";
+  previewCb.onchange = () => { STATE.preview = previewCb.checked; };
+  previewWrap.title = "Show exactly what will be sent (after redaction) and wait for Send";
+  previewWrap.append(previewCb, document.createTextNode("Preview"));
   const btnCapture = document.createElement("button");
   btnCapture.textContent = "Capture Tab";
   const btnScan = document.createElement("button");
@@ -332,7 +276,13 @@ function createPanel() {
   btnHandoff.textContent = "Open ChatGPT";
   const btnClear = document.createElement("button");
   btnClear.textContent = "Clear";
-  toolbar.append(btnHighlight, strictWrap, btnCapture, btnScan, btnHandoff, btnClear);
+  const btnHistory = document.createElement("button");
+  btnHistory.textContent = "History";
+  const btnStop = document.createElement("button");
+  btnStop.textContent = "Stop";
+  btnStop.className = "aws-assist-stop";
+  btnStop.disabled = true;
+  toolbar.append(btnHighlight, strictWrap, previewWrap, btnCapture, btnScan, btnHandoff, btnHistory, btnClear, btnStop);
   panel.appendChild(toolbar);
   panel.appendChild(status);
 
@@ -341,50 +291,109 @@ function createPanel() {
   inputWrap.className = "aws-assist-input";
   const input = document.createElement("input");
   input.type = "text";
-  input.placeholder = "Ask about AWS, or say 'highlight Create role'...";
+  input.placeholder = PROFILE.panel.placeholder;
   const sendBtn = document.createElement("button");
   sendBtn.textContent = "Send";
-  inputWrap.append(input, sendBtn);
+  const micBtn = createMicButton(input, () => sendPrompt(input, chat)); // voice.js
+  inputWrap.append(input, micBtn, sendBtn);
   panel.appendChild(inputWrap);
 
-  document.body.appendChild(panel);
+  root.appendChild(panel);
 
   // draggable header
   makeDraggable(panel, header);
 
   // key gate inline when needed
-  renderSystemNote(chat, "Press Alt+J to toggle. No data is persisted.");
+  renderSystemNote(chat, `Press ${HOTKEY_LABEL} to toggle. No data is persisted unless you turn on History.`);
   checkApiKey().then((has) => {
     STATE.hasApiKey = has;
     if (!has) renderApiKeyPrompt(chat);
   });
+  lockBtn.onclick = () => {
+    chrome.runtime.sendMessage({ kind: "LOCK_KEYS" }, () => {
+      STATE.hasApiKey = false;
+      syncLockButton();
+      renderSystemNote(chat, "Saved keys locked.");
+      renderApiKeyPrompt(chat);
+    });
+  };
+  syncLockButton();
+
+  // reopen this tab's conversation after a reload when history is enabled
+  loadHistorySettings().then(restoreConversation).then((c) => {
+    if (c) openConversation(chat, c);
+  });
+
+  const showHistory = (show: boolean) => {
+    historyView.style.display = show ? "flex" : "none";
+    chat.style.display = show ? "none" : "flex";
+    btnHistory.textContent = show ? "Back to chat" : "History";
+    if (show) {
+      renderHistoryView(historyView, (c) => {
+        openConversation(chat, c);
+        showHistory(false);
+      });
+    }
+  };
+  btnHistory.onclick = () => showHistory(historyView.style.display === "none");
 
   // wire buttons
   btnClear.onclick = () => {
     STATE.messages = [];
+    resetConversation();
     chat.innerHTML = "";
+    endTour();
     cleanupHighlights();
+    clearFrameHighlights();
   };
 
-  btnHighlight.onclick = () => {
+  btnStop.onclick = () => {
+    if (!STATE.pendingId) return;
+    chrome.runtime.sendMessage({ kind: "STOP_LLM", requestId: STATE.pendingId });
+  };
+
+  btnHighlight.onclick = async () => {
     const text = input.value.trim();
     if (!text) {
       renderSystemNote(chat, "Type a word visible on the page, then click Highlight.");
       return;
     }
-    const els = findCandidates({ text, role: undefined }, { strict: !!strictCb.checked, clickableOnly: true });
-    if (els.length) highlightElements(els, "Match");
-    else renderSystemNote(chat, `No visible elements containing \"${text}\"`);
+    const opts: FindOpts = { strict: !!strictCb.checked, clickableOnly: true };
+    const els = findCandidates({ text, role: undefined }, opts);
+    if (els.length) {
+      highlightElements(els, "Match");
+      clearFrameHighlights();
+      return;
+    }
+    cleanupHighlights();
+    const [inFrames] = await highlightInFrames([{ text }], "Match");
+    if (inFrames) return;
+    const boxes = findOcrBoxes(STATE.ocrHints, text);
+    if (boxes.length) {
+      highlightBoxes(boxes, "OCR");
+      return;
+    }
+    const near = suggestCandidates({ text }, opts);
+    if (near.length) renderSuggestions(chat, text, near, (el) => highlightElements([el], "Match"));
+    else renderSystemNote(chat, `No visible elements containing \"${text}\"${searchCutNote()}`);
   };
 
   btnCapture.onclick = async () => {
-    const hints = await captureAndOCR();
-    STATE.ocrHints = hints;
-    renderSystemNote(chat, `OCR keywords captured: ${hints.slice(0, 10).join(", ") || "(none)"}`);
+    renderSystemNote(chat, "Capturing tab and running OCR...");
+    try {
+      const hints = await captureAndOCR();
+      STATE.ocrHints = hints;
+      renderSystemNote(chat, `OCR keywords captured: ${ocrKeywords(hints).slice(0, 10).join(", ") || "(none)"}`);
+    } catch (e: any) {
+      renderSystemNote(chat, `OCR failed: ${e?.message || e}`);
+    }
   };
 
-  btnScan.onclick = () => {
-    STATE.domHints = collectDomHints();
+  btnScan.onclick = async () => {
+    // Page first, then whatever the iframes see
+    const own = collectDomHints();
+    const frames = await collectFrameDomHints();
+    STATE.domHints = Array.from(new Set([...own, ...frames])).slice(0, 100);
     renderSystemNote(chat, `DOM hints: ${STATE.domHints.slice(0, 10).join(", ") || "(none)"}`);
   };
 
@@ -404,17 +413,12 @@ function createPanel() {
     if (e.key === "Enter") sendPrompt(input, chat);
   });
 
-  // receive streaming deltas and actions
-  chrome.runtime.onMessage.addListener((msg: any) => {
-    if (msg?.kind === "LLM_DELTA") {
-      renderAssistantDelta(chat, msg.delta || "");
-    } else if (msg?.kind === "LLM_DONE") {
-      if (typeof msg.fullText === "string") tryExtractAndAct(msg.fullText);
-    } else if (msg?.kind === "LLM_ACTION") {
-      tryRunAction(msg.action);
-    } else if (msg?.kind === "LLM_ERROR") {
-      renderSystemNote(chat, `Error: ${msg.error}`);
-    }
+  // Streams normally arrive on the request's port; requests the worker
+  // rehydrated after a restart come back as plain tab messages
+  chrome.runtime.onMessage.addListener((msg: any, _sender, sendResponse) => {
+    if (msg?.kind === "TOGGLE_PANEL") togglePanel();
+    else if (msg?.kind === "PAGE_TOOL") sendResponse(runPageTool(msg.name, msg.args)); // pageTools.js
+    else handleLLMMessage(chat, msg);
   });
 
   // start status polling
@@ -428,25 +432,27 @@ function sendPrompt(input: HTMLInputElement, chat: HTMLDivElement) {
   // Local handling for visibility/context queries without LLM
   if (isLocalScanQuery(text)) {
     const report = buildLocalContextReport();
-    STATE.messages.push({ role: "user", content: text });
+    recordMessage("user", text);
     renderUser(chat, text);
     renderAssistantDelta(chat, "");
     renderAssistantDelta(chat, report);
+    recordMessage("assistant", report);
     if (currentAssistantEl) currentAssistantEl.setAttribute("data-closed", "1");
     return;
   }
 
-  // Local fallback for "steps to find <thing>" to avoid 429s
-  const findIntent = parseFindStepsIntent(text);
-  if (findIntent) {
-    STATE.messages.push({ role: "user", content: text });
+  // The site profile's local intents (e.g. "steps to find <thing>") skip the model
+  const intent = matchLocalIntent(text);
+  if (intent) {
+    recordMessage("user", text);
     renderUser(chat, text);
     renderAssistantDelta(chat, "");
-    const plan = localFindPlan(findIntent);
-    renderAssistantDelta(chat, plan);
-    // Try to highlight the search box immediately
-    const targets = findSemanticTargets('search icon');
-    if (targets.length) highlightElements(targets, 'Search');
+    renderAssistantDelta(chat, intent.reply);
+    recordMessage("assistant", intent.reply);
+    if (intent.highlight) {
+      const targets = findSemanticTargets(intent.highlight);
+      if (targets.length) highlightElements(targets, intent.highlight[0].toUpperCase() + intent.highlight.slice(1));
+    }
     if (currentAssistantEl) currentAssistantEl.setAttribute("data-closed", "1");
     return;
   }
@@ -454,34 +460,272 @@ function sendPrompt(input: HTMLInputElement, chat: HTMLDivElement) {
   // Local small-talk response to avoid 429 and keep UX snappy
   const small = smallTalkReply(text);
   if (small) {
-    STATE.messages.push({ role: "user", content: text });
+    recordMessage("user", text);
     renderUser(chat, text);
     renderAssistantDelta(chat, "");
     renderAssistantDelta(chat, small);
+    recordMessage("assistant", small);
     if (currentAssistantEl) currentAssistantEl.setAttribute("data-closed", "1");
     return;
   }
-  STATE.messages.push({ role: "user", content: text });
+  recordMessage("user", text);
   renderUser(chat, text);
+  stopSpeaking(); // the previous answer is moot once a new question is asked
   renderAssistantDelta(chat, ""); // start a new assistant bubble for streaming
 
+  askAssistant(chat);
+}
+
+// Ask about the conversation so far (its last message is the user's question)
+function askAssistant(chat: HTMLDivElement) {
   const payload = {
     messages: STATE.messages,
-    context: { domHints: STATE.domHints, ocrHints: STATE.ocrHints }
+    context: {
+      domHints: STATE.domHints,
+      ocrHints: ocrKeywords(STATE.ocrHints),
+      // Read fresh for every question: the console page changes under the panel
+      aws: PROFILE.id === "aws" ? extractAwsContext() : undefined,
+      snapshot: buildPageSnapshot()
+    }
+  };
+
+  const send = () => {
+    const requestId = newRequestId();
+    STATE.turnActions = [];
+    setPending(requestId);
+    connectRequest(chat, { kind: "ASK_LLM", requestId, payload });
+  };
+  if (STATE.preview) renderPreview(chat, payload, send);
+  else send();
+}
+
+// The payload as the worker would send it (redacted, trimmed), with Send / Cancel
+function renderPreview(chat: HTMLDivElement, payload: any, send: () => void) {
+  const wrap = document.createElement("div");
+  wrap.className = "aws-assist-msg system aws-assist-preview";
+  wrap.textContent = "Preparing preview…";
+  chat.insertBefore(wrap, currentAssistantEl);
+  chat.scrollTop = chat.scrollHeight;
+  const bubble = currentAssistantEl;
+  chrome.runtime.sendMessage({ kind: "PREVIEW_REQUEST", payload }, (res: any) => {
+    wrap.textContent = "";
+    const head = document.createElement("div");
+    wrap.appendChild(head);
+    if (!res?.ok) head.textContent = `Preview failed: ${res?.error || "no answer from the extension"}`;
+    else {
+      const redacted = Object.keys(res.redacted || {}).length ? `Masked: ${redactionList(res.redacted)}.` : "Nothing matched the redaction rules.";
+      head.textContent = `To ${new URL(res.url).host}, about ${res.tokens} tokens (plus tool rounds). ${res.redactionOn ? redacted : "Redaction is off."}`;
+      wrap.appendChild(renderCodeBlock("json", JSON.stringify(res.body, null, 2))); // markdown.js
+    }
+    const row = document.createElement("div");
+    row.className = "aws-assist-confirm";
+    const ok = document.createElement("button");
+    ok.textContent = "Send";
+    const cancel = document.createElement("button");
+    cancel.textContent = "Cancel";
+    const done = () => { ok.disabled = true; cancel.disabled = true; };
+    ok.onclick = () => {
+      done();
+      send();
+    };
+    // Take the question back so it can be edited and asked again
+    cancel.onclick = () => {
+      done();
+      const last = STATE.messages[STATE.messages.length - 1];
+      if (last?.role === "user") {
+        STATE.messages.pop();
+        scheduleHistorySave(STATE.messages);
+        const input = uiQuery<HTMLInputElement>("#aws-assist-panel .aws-assist-input input");
+        if (input && !input.value) input.value = last.content;
+      }
+      if (bubble && bubble === currentAssistantEl && !ASSISTANT_TEXT.get(bubble)) {
+        bubble.remove();
+        currentAssistantEl = null;
+      }
+      renderSystemNote(chat, "Not sent.");
+    };
+    if (res?.ok) ok.focus();
+    row.append(ok, cancel);
+    wrap.appendChild(row);
+    chat.scrollTop = chat.scrollHeight;
+  });
+}
+
+function redactionList(counts: Record<string, number>): string {
+  return Object.entries(counts).map(([label, n]) => `${label.toLowerCase().replace(/_/g, " ")} ×${n}`).join(", ");
+}
+
+const PORT_PING_MS = 20_000; // below the worker's 30s idle timeout
+
+// One port per request. If it drops before the answer is done (the worker was
+// stopped), reconnect once to RESUME; a request that can't be resumed is LOST.
+function connectRequest(chat: HTMLDivElement, first: { kind: "ASK_LLM" | "RESUME"; requestId: string; payload?: any }) {
+  const { requestId } = first;
+  const port = chrome.runtime.connect({ name: "llm" });
+  let settled = false;
+  const ping = window.setInterval(() => {
+    try { port.postMessage({ kind: "PING" }); } catch (_) { /* disconnected */ }
+  }, PORT_PING_MS);
+  port.onMessage.addListener((msg: any) => {
+    if (msg?.requestId === requestId && ["LLM_DONE", "LLM_ERROR", "LLM_LOST"].includes(msg.kind)) {
+      settled = true;
+      clearInterval(ping);
+      port.disconnect();
+    }
+    handleLLMMessage(chat, msg);
+  });
+  port.onDisconnect.addListener(() => {
+    clearInterval(ping);
+    if (settled || STATE.pendingId !== requestId) return;
+    if (first.kind === "ASK_LLM") connectRequest(chat, { kind: "RESUME", requestId });
+    else handleLLMMessage(chat, { kind: "LLM_LOST", requestId });
+  });
+  port.postMessage(first);
+}
+
+function handleLLMMessage(chat: HTMLDivElement, msg: any) {
+  // Ignore stragglers from a request the user already stopped or replaced
+  const stale = !!msg?.requestId && msg.requestId !== STATE.pendingId;
+  if (msg?.kind === "LLM_DELTA") {
+    if (stale) return;
+    renderAssistantDelta(chat, msg.delta || "");
+  } else if (msg?.kind === "LLM_DONE") {
+    if (stale) return;
+    setPending(null);
+    // History keeps what was done alongside the prose, so follow-ups can refer to it
+    const done = STATE.turnActions.map((a) => `[${actionSummary(a)}]`).join("\n");
+    STATE.turnActions = [];
+    const record = [msg.fullText || "", done].filter(Boolean).join("\n\n");
+    if (record) recordMessage("assistant", record);
+    finishAssistant(msg.stopped ? "stopped" : msg.partial ? "partial" : undefined);
+    if (!msg.stopped) speakAnswer(msg.fullText || "");
+  } else if (msg?.kind === "LLM_CONTEXT") {
+    if (stale) return;
+    STATE.lastContext = msg.breakdown || null;
+    STATE.lastRedacted = msg.redacted || null;
+  } else if (msg?.kind === "LLM_ACTION") {
+    if (stale) return;
+    if (msg.error) {
+      renderSystemNote(chat, `Ignored an invalid ${msg.tool || "tool"} call: ${msg.error}`);
+      return;
+    }
+    STATE.turnActions.push(msg.action);
+    renderActionNote(chat, msg.action);
+    tryRunAction(msg.action);
+  } else if (msg?.kind === "LLM_TOOL") {
+    if (stale) return;
+    renderToolTrace(chat, msg);
+  } else if (msg?.kind === "LLM_ERROR") {
+    if (stale) return;
+    setPending(null);
+    finishAssistant();
+    renderSystemNote(chat, `Error: ${msg.error}`);
+    if (msg.locked) renderApiKeyPrompt(chat); // points to the popup
+    syncLockButton();
+  } else if (msg?.kind === "LLM_LOST") {
+    if (stale) return;
+    setPending(null);
+    finishAssistant("lost");
+    renderLostNote(chat);
+  }
+}
+
+// What the model looked at before answering, folded above the answer
+function renderToolTrace(chat: HTMLDivElement, msg: any) {
+  let trace = chat.querySelector<HTMLDetailsElement>(`.aws-assist-trace[data-request="${msg.requestId}"]`);
+  if (!trace) {
+    trace = document.createElement("details");
+    trace.className = "aws-assist-trace";
+    trace.setAttribute("data-request", msg.requestId);
+    trace.appendChild(document.createElement("summary"));
+    const bubble = currentAssistantEl && currentAssistantEl.getAttribute("data-closed") !== "1" ? currentAssistantEl : null;
+    chat.insertBefore(trace, bubble);
+  }
+  const args = msg.args && typeof msg.args === "object" ? JSON.stringify(msg.args) : "";
+  const line = document.createElement("div");
+  if (!msg.ok) line.className = "failed";
+  line.textContent = `${msg.step}. ${msg.name}${args && args !== "{}" ? ` ${args.slice(0, 120)}` : ""} → ${msg.summary || (msg.ok ? "done" : "failed")}`;
+  trace.appendChild(line);
+  const count = trace.querySelectorAll("div").length;
+  trace.querySelector("summary")!.textContent = `Looked at the page (${count} ${count === 1 ? "lookup" : "lookups"})`;
+  chat.scrollTop = chat.scrollHeight;
+}
+
+function renderLostNote(chat: HTMLDivElement) {
+  const d = document.createElement("div");
+  d.className = "aws-assist-msg system";
+  d.textContent = "The assistant was restarted by the browser and this answer was lost. ";
+  const retry = document.createElement("button");
+  retry.textContent = "Retry";
+  retry.onclick = () => {
+    retry.disabled = true;
+    if (STATE.pendingId) return;
+    renderAssistantDelta(chat, "");
+    askAssistant(chat);
   };
+  d.appendChild(retry);
+  chat.appendChild(d);
+  chat.scrollTop = chat.scrollHeight;
+}
 
-  chrome.runtime.sendMessage({ kind: "ASK_LLM", payload });
+function recordMessage(role: ChatMessage["role"], content: string) {
+  STATE.messages.push({ role, content });
+  scheduleHistorySave(STATE.messages);
 }
 
+// Replace the chat with a saved conversation and continue it in this tab
+function openConversation(chat: HTMLDivElement, c: Conversation) {
+  STATE.messages = c.messages.slice();
+  useConversation(c.id);
+  chat.innerHTML = "";
+  currentAssistantEl = null;
+  for (const m of STATE.messages) {
+    if (m.role === "user") renderUser(chat, m.content);
+    else if (m.role === "assistant") {
+      const { prose, actions } = splitActionLines(m.content);
+      renderAssistantDelta(chat, prose);
+      finishAssistant();
+      for (const a of actions) renderActionChip(chat, a);
+    }
+  }
+  renderSystemNote(chat, `Restored conversation from ${new Date(c.updatedAt).toLocaleString()}.`);
+}
+
+function newRequestId(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+function setPending(id: string | null) {
+  STATE.pendingId = id;
+  const stop = uiQuery<HTMLButtonElement>("#aws-assist-panel .aws-assist-stop");
+  if (stop) stop.disabled = !id;
+}
+
+// Asks for the key. Passphrases are only typed into extension pages (popup,
+// options): keystrokes in this panel are visible to the page's own listeners.
 function renderApiKeyPrompt(chat: HTMLDivElement) {
+  chat.querySelectorAll(".aws-assist-key-prompt").forEach((n) => n.remove());
   const wrap = document.createElement("div");
-  wrap.className = "aws-assist-msg system";
-  wrap.textContent = "Enter your OpenAI API key (kept in memory only): ";
+  wrap.className = "aws-assist-msg system aws-assist-key-prompt";
+  chat.appendChild(wrap);
+  chrome.runtime.sendMessage({ kind: "GET_KEY_STATUS" }, (st: any) => {
+    const p = st?.providers?.find((x: any) => x.id === st.provider);
+    if (p?.locked) wrap.textContent = "Saved keys are locked — unlock from the toolbar popup.";
+    else renderKeyForm(wrap, p?.label, st?.vault);
+    chat.scrollTop = chat.scrollHeight;
+  });
+}
+
+function renderKeyForm(wrap: HTMLDivElement, label: string | undefined, vault: { exists: boolean; locked: boolean } | undefined) {
+  wrap.textContent = label
+    ? `Enter your ${label} API key (kept in memory only; switch providers in the popup): `
+    : "Enter your API key (kept in memory only): ";
   const input = document.createElement("input");
   input.type = "password";
   input.placeholder = "sk-...";
   input.style.marginLeft = "6px";
   input.style.width = "65%";
+  // Remembering needs an open vault; creating or opening one takes the popup
   const persistLabel = document.createElement("label");
   persistLabel.style.marginLeft = "6px";
   persistLabel.style.fontSize = "12px";
@@ -490,23 +734,53 @@ function renderApiKeyPrompt(chat: HTMLDivElement) {
   const persist = document.createElement("input");
   persist.type = "checkbox";
   persist.style.marginRight = "4px";
-  persistLabel.appendChild(persist);
-  persistLabel.appendChild(document.createTextNode("Remember on this device"));
+  if (vault?.exists && !vault.locked) {
+    persistLabel.append(persist, document.createTextNode("Remember on this device (encrypted)"));
+  } else {
+    persistLabel.textContent = "To remember it on this device, set it from the toolbar popup.";
+  }
+  const error = document.createElement("div");
+  error.className = "aws-assist-key-error";
+  const btn = document.createElement("button");
+  const submit = () => {
+    const key = (input.value || "").trim();
+    if (!key) return;
+    btn.disabled = true;
+    error.textContent = "Checking key…";
+    setApiKey(key, persist.checked).then((res) => {
+      btn.disabled = false;
+      if (!res?.ok) {
+        error.textContent = res?.error || "Could not set the key";
+        return;
+      }
+      wrap.textContent = res.persisted ? "Key saved on this device (encrypted)." : "Key set for this session.";
+      if (res.warning) wrap.textContent += ` ${res.warning}.`;
+    });
+  };
   input.addEventListener("keydown", (e) => {
-    if (e.key === "Enter") setApiKey(input.value, persist.checked);
+    if (e.key === "Enter") submit();
   });
-  const btn = document.createElement("button");
   btn.textContent = "Set";
-  btn.onclick = () => setApiKey(input.value, persist.checked);
-  wrap.append(input, btn, persistLabel);
-  chat.appendChild(wrap);
+  btn.onclick = submit;
+  wrap.append(input, btn, persistLabel, error);
+}
+
+// The worker checks the key with the provider before keeping it
+function setApiKey(key: string, persist: boolean): Promise<any> {
+  return new Promise((resolve) => {
+    chrome.runtime.sendMessage({ kind: "SET_API_KEY", key, persist }, (res: any) => {
+      STATE.hasApiKey = !!(res && res.ok);
+      syncLockButton();
+      resolve(res);
+    });
+  });
 }
 
-function setApiKey(val: string, persist = false) {
-  const key = (val || "").trim();
-  if (!key) return;
-  chrome.runtime.sendMessage({ kind: "SET_API_KEY", key, persist }, (res: any) => {
-    STATE.hasApiKey = !!(res && res.ok);
+// The header lock shows while saved keys are unlocked
+function syncLockButton() {
+  chrome.runtime.sendMessage({ kind: "GET_KEY_STATUS" }, (st: any) => {
+    const btn = uiQuery<HTMLButtonElement>("#aws-assist-panel .aws-assist-lock");
+    if (btn) btn.style.display = st?.vault?.exists && !st.vault.locked ? "" : "none";
   });
 }
 
@@ -525,16 +799,56 @@ function renderUser(chat: HTMLDivElement, text: string) {
 }
 
 let currentAssistantEl: HTMLDivElement | null = null;
+const ASSISTANT_TEXT = new WeakMap<HTMLElement, string>(); // raw Markdown of each bubble
+const ASSISTANT_DIRTY = new Set<HTMLElement>();
+let assistantFrame = 0;
+
 function renderAssistantDelta(chat: HTMLDivElement, delta: string) {
   if (!currentAssistantEl || currentAssistantEl.getAttribute("data-closed") === "1") {
     currentAssistantEl = document.createElement("div");
     currentAssistantEl.className = "aws-assist-msg assistant";
     chat.appendChild(currentAssistantEl);
   }
-  if (delta) currentAssistantEl!.textContent = (currentAssistantEl!.textContent || "") + delta;
+  if (delta) {
+    const el = currentAssistantEl!;
+    ASSISTANT_TEXT.set(el, (ASSISTANT_TEXT.get(el) || "") + delta);
+    scheduleAssistantRender(chat, el);
+  }
   chat.scrollTop = chat.scrollHeight;
 }
 
+// At most one Markdown pass per frame, however many tokens arrived in between
+function scheduleAssistantRender(chat: HTMLDivElement, el: HTMLElement) {
+  ASSISTANT_DIRTY.add(el);
+  if (assistantFrame) return;
+  assistantFrame = requestAnimationFrame(() => {
+    assistantFrame = 0;
+    for (const d of Array.from(ASSISTANT_DIRTY)) renderAssistantMarkdown(d);
+    chat.scrollTop = chat.scrollHeight;
+  });
+}
+
+function renderAssistantMarkdown(el: HTMLElement) {
+  ASSISTANT_DIRTY.delete(el);
+  renderMarkdown(el, ASSISTANT_TEXT.get(el) || "", { codeBlock: actionCodeBlock }); // markdown.js
+}
+
+// Close the streaming bubble, optionally flagging it as cut short
+function finishAssistant(flag?: "stopped" | "partial" | "lost") {
+  const el = currentAssistantEl;
+  if (!el || el.getAttribute("data-closed") === "1") return;
+  el.setAttribute("data-closed", "1");
+  if (ASSISTANT_DIRTY.has(el)) renderAssistantMarkdown(el); // before the flag, which a later render would drop
+  if (!flag) return;
+  el.setAttribute("data-state", flag);
+  const tag = document.createElement("span");
+  tag.className = "aws-assist-flag";
+  tag.textContent = flag === "stopped" ? "Stopped"
+    : flag === "lost" ? "Lost (assistant restarted)"
+    : "Partial answer (connection dropped)";
+  el.appendChild(tag);
+}
+
 function renderSystemNote(chat: HTMLDivElement, text: string) {
   const d = document.createElement("div");
   d.className = "aws-assist-msg system";
@@ -543,26 +857,208 @@ function renderSystemNote(chat: HTMLDivElement, text: string) {
   chat.scrollTop = chat.scrollHeight;
 }
 
-function tryExtractAndAct(fullText: string) {
-  // Look for a JSON block that includes an "action" field
-  try {
-    const m = fullText.match(/\{[\s\S]*\}/);
-    if (!m) return;
-    const obj = JSON.parse(m[0]);
-    tryRunAction(obj);
-  } catch (_) {
-    // ignore
-  } finally {
-    if (currentAssistantEl) currentAssistantEl.setAttribute("data-closed", "1");
+// Actions render as a chip under the answer, never inside the prose
+function renderActionNote(chat: HTMLDivElement, action: any) {
+  renderActionChip(chat, actionChipLabel(action), actionSummary(action));
+}
+
+function renderActionChip(chat: HTMLDivElement, label: string, title = label) {
+  const d = document.createElement("div");
+  d.className = "aws-assist-action";
+  const chip = document.createElement("span");
+  chip.className = "aws-assist-chip";
+  chip.textContent = `▶ ${label}`;
+  chip.title = title;
+  d.appendChild(chip);
+  chat.appendChild(d);
+  chat.scrollTop = chat.scrollHeight;
+}
+
+function actionChipLabel(action: any): string {
+  const n = (list: unknown) => (Array.isArray(list) ? list.length : 0);
+  if (action?.action === "highlight") return `Highlighted ${n(action.targets)} target${n(action.targets) === 1 ? "" : "s"}`;
+  if (action?.action === "tour") return `Tour · ${n(action.steps)} step${n(action.steps) === 1 ? "" : "s"}`;
+  return actionSummary(action);
+}
+
+const ACTION_NAMES = ["highlight", "tour", ...PAGE_ACTIONS];
+
+// Action JSON written into the answer (instead of a tool call) isn't run; show
+// it as a chip that unfolds to the JSON rather than as a wall of code
+function actionCodeBlock(lang: string, code: string, closed: boolean): HTMLElement | null {
+  if (lang && lang !== "json") return null;
+  let action: any = null;
+  if (closed) {
+    try { action = JSON.parse(code); } catch (_) { return null; }
+    if (!action || !ACTION_NAMES.includes(action.action)) return null;
+  } else if (!/^\s*\{\s*"action"\s*:/.test(code)) return null;
+  const wrap = document.createElement("div");
+  wrap.className = "aws-assist-action";
+  const chip = document.createElement("button");
+  chip.className = "aws-assist-chip";
+  chip.textContent = action ? `{ } ${actionChipLabel(action)}` : "{ } Action…";
+  chip.title = "Action JSON in the answer (not run). Click to show it.";
+  let shown: HTMLElement | null = null;
+  chip.onclick = () => {
+    if (shown) {
+      shown.remove();
+      shown = null;
+    } else {
+      shown = wrap.appendChild(renderCodeBlock("json", code));
+    }
+  };
+  wrap.appendChild(chip);
+  return wrap;
+}
+
+// History entries end with "[Highlight 'Create role']" lines for the actions taken
+function splitActionLines(content: string): { prose: string; actions: string[] } {
+  const lines = content.split("\n");
+  const actions: string[] = [];
+  while (lines.length && /^\[[^\]\n]+\]$/.test(lines[lines.length - 1].trim())) actions.unshift(lines.pop()!.trim().slice(1, -1));
+  return { prose: lines.join("\n").trimEnd(), actions };
+}
+
+function actionSummary(action: any): string {
+  const name = (t: any) => normalizeTargets([t || {}])[0].text || t?.ref || t?.role || "element";
+  switch (action?.action) {
+    case "highlight": return `Highlight ${(action.targets || []).map((t: any) => `'${name(t)}'`).join(", ")}`;
+    case "tour": return `Tour: ${(action.steps || []).length} step(s), starting at '${name(action.steps?.[0]?.target)}'`;
+    case "fill": return `Fill '${name(action.target)}'`;
+    case "select": return `Select "${action.option}" in '${name(action.target)}'`;
+    default: return `${String(action?.action || "action").replace(/^./, (c) => c.toUpperCase())} '${name(action?.target)}'`;
   }
 }
 
-function tryRunAction(action: any) {
+async function tryRunAction(action: any) {
   if (action?.action === "highlight" && Array.isArray(action.targets)) {
     const queries = normalizeTargets(action.targets);
-    const results = queries.flatMap((q) => findCandidates(q));
-    if (results.length) highlightElements(results, "Target");
+    const results: HighlightSpec[] = [];
+    const unmatched: FindQuery[] = [];
+    queries.forEach((q, i) => {
+      const els = findCandidates(q);
+      // Optional per-target styling: {"text":"...","label":"Step 1","color":"#f97316"}
+      const raw = action.targets[i] || {};
+      const label = typeof raw.label === "string" ? raw.label : undefined;
+      const color = typeof raw.color === "string" && CSS.supports("color", raw.color) ? raw.color : undefined;
+      if (els.length) els.forEach((el, j) => results.push({ el, label: label && els.length > 1 ? `${label} ${j + 1}` : label, color }));
+      else unmatched.push(q);
+    });
+    const timeoutMs = typeof action.timeoutMs === "number" ? action.timeoutMs : undefined;
+    if (results.length) highlightElements(results, "Target", { timeoutMs });
+    else cleanupHighlights();
+
+    // Not in this document: try the iframes, then OCR text (canvas charts, images of text)
+    if (!unmatched.length) {
+      clearFrameHighlights();
+      return;
+    }
+    const inFrames = await highlightInFrames(unmatched, "Target");
+    const boxes = unmatched
+      .filter((q, i) => !inFrames[i] && q.text)
+      .flatMap((q) => findOcrBoxes(STATE.ocrHints, q.text!));
+    if (boxes.length) {
+      highlightBoxes(boxes, "OCR", { timeoutMs });
+      return;
+    }
+    // Nothing anywhere: offer near misses ("Creat role" -> "Create role")
+    const chat = uiQuery<HTMLDivElement>("#aws-assist-panel .aws-assist-chat");
+    const missed = unmatched.find((q, i) => !inFrames[i] && q.text);
+    const near = missed ? suggestCandidates(missed) : [];
+    if (chat && missed && near.length) renderSuggestions(chat, missed.text!, near, (el) => highlightElements([el], "Target", { timeoutMs }));
+    return;
   }
+
+  const tour = parseTour(action);
+  if (tour) {
+    startTour(tour);
+    return;
+  }
+
+  const pageAction = parsePageAction(action);
+  if (!pageAction) return;
+
+  const chat = uiQuery<HTMLDivElement>("#aws-assist-panel .aws-assist-chat");
+  const proceed = (el: HTMLElement) => {
+    highlightElements([el], "Target");
+    const run = async () => {
+      try {
+        const result = await runPageAction(pageAction, el);
+        if (chat) renderSystemNote(chat, result);
+      } catch (e: any) {
+        if (chat) renderSystemNote(chat, `Could not ${pageAction.action} '${pageAction.target.text || pageAction.target.role || "element"}': ${e?.message || e}`);
+      }
+    };
+    if (!isMutatingAction(pageAction)) run();
+    else if (chat) renderConfirmCard(chat, describePageAction(pageAction), run);
+    // No panel to ask in: changes to the page are never made unconfirmed
+    else highlightElements([el], `Not run: ${pageAction.action} needs confirmation in the panel`, { timeoutMs: 4000 });
+  };
+  const el = resolveActionTarget(pageAction);
+  if (el) {
+    proceed(el);
+    return;
+  }
+  if (!chat) return;
+  const wanted = pageAction.target.text || pageAction.target.role || "element";
+  const near = pageAction.target.text ? suggestCandidates(pageAction.target, { clickableOnly: pageAction.action === "click" }) : [];
+  if (!near.length) {
+    renderSystemNote(chat, `Could not find '${wanted}' on this page.${searchCutNote()}`);
+    return;
+  }
+  // Picking a near miss still goes through the usual confirmation
+  renderSuggestions(chat, wanted, near, (pick) => {
+    const target = pageAction.action === "click" || pageAction.action === "scroll" ? pick : toField(pick, pageAction.action === "select");
+    if (target) proceed(target);
+    else renderSystemNote(chat, `'${wanted}' is not a form field.`);
+  });
+}
+
+// Inline Yes/No card; onYes runs at most once and the card locks afterwards
+function renderConfirmCard(chat: HTMLDivElement, question: string, onYes: () => void) {
+  const card = document.createElement("div");
+  card.className = "aws-assist-msg system aws-assist-confirm";
+  const text = document.createElement("span");
+  text.textContent = question;
+  const yes = document.createElement("button");
+  yes.textContent = "Yes";
+  const no = document.createElement("button");
+  no.textContent = "No";
+  const settle = (answer: string) => {
+    yes.disabled = true;
+    no.disabled = true;
+    card.setAttribute("data-answer", answer);
+  };
+  yes.onclick = () => { settle("yes"); onYes(); };
+  no.onclick = () => { settle("no"); cleanupHighlights(); };
+  card.append(text, yes, no);
+  chat.appendChild(card);
+  chat.scrollTop = chat.scrollHeight;
+}
+
+// "Did you mean …?" with one button per near miss; the first pick wins
+function renderSuggestions(chat: HTMLDivElement, wanted: string, matches: ElementMatch[], onPick: (el: HTMLElement) => void) {
+  const card = document.createElement("div");
+  card.className = "aws-assist-msg system aws-assist-confirm";
+  const text = document.createElement("span");
+  text.textContent = `No exact match for '${wanted}'. Did you mean`;
+  card.appendChild(text);
+  const buttons: HTMLButtonElement[] = [];
+  for (const m of matches) {
+    const b = document.createElement("button");
+    b.textContent = (m.match?.label || "this").slice(0, 40);
+    if (m.match) b.title = describeMatch(m.match);
+    b.onmouseenter = () => highlightElements([m.el], "Match", { timeoutMs: 1500 });
+    b.onclick = () => {
+      buttons.forEach((x) => { x.disabled = true; });
+      card.setAttribute("data-answer", "yes");
+      onPick(m.el);
+    };
+    buttons.push(b);
+  }
+  card.append(...buttons);
+  chat.appendChild(card);
+  chat.scrollTop = chat.scrollHeight;
 }
 
 function makeDraggable(panel: HTMLElement, handle: HTMLElement) {
@@ -586,29 +1082,75 @@ function makeDraggable(panel: HTMLElement, handle: HTMLElement) {
 }
 
 function togglePanel() {
+  if (!STATE.open && !SITE_ENABLED) return;
   STATE.open = !STATE.open;
-  const existing = document.getElementById("aws-assist-panel");
+  const existing = uiQuery("#aws-assist-panel");
   if (STATE.open && !existing) createPanel();
   if (existing) existing.style.display = STATE.open ? "flex" : "none";
 }
 
-// Hotkey: Alt+J
+function applyContentSettings(s: any) {
+  if (IS_TOP_FRAME) applyVoiceSettings(s?.voice);
+  if (typeof s?.enabled === "boolean") {
+    SITE_ENABLED = s.enabled;
+    if (!SITE_ENABLED && STATE.open) togglePanel();
+    if (SITE_ENABLED) setUpPanel();
+  }
+  if (s?.hotkey) {
+    HOTKEY = s.hotkey; // uiRoot.js
+    HOTKEY_LABEL = s.hotkeyLabel || HOTKEY_LABEL;
+  }
+  if (s?.profile) {
+    PROFILE = s.profile;
+    const title = uiQuery("#aws-assist-panel .aws-assist-panel-title");
+    if (title) title.textContent = PROFILE.panel.title;
+    const input = uiQuery<HTMLInputElement>("#aws-assist-panel .aws-assist-input input");
+    if (input) input.placeholder = PROFILE.panel.placeholder;
+  }
+}
+
+// Nothing is set up before this answers, so a disabled site never gets a panel.
+// A worker that is still starting may not answer; ask again rather than guess.
+function requestContentSettings(attempt = 0) {
+  chrome.runtime.sendMessage({ kind: "GET_SETTINGS" }, (s: any) => {
+    if (chrome.runtime.lastError || typeof s?.enabled !== "boolean") {
+      if (attempt < 5) setTimeout(() => requestContentSettings(attempt + 1), 500 * 2 ** attempt);
+      return;
+    }
+    applyContentSettings(s);
+  });
+}
+requestContentSettings();
+chrome.runtime.onMessage.addListener((msg: any, _sender, sendResponse) => {
+  if (msg?.kind === "SETTINGS_CHANGED") applyContentSettings(msg);
+  else if (msg?.kind === "PANEL_STATE" && IS_TOP_FRAME) {
+    // From the popup: report, or open/close when `open` is given
+    if (typeof msg.open === "boolean" && msg.open !== STATE.open) togglePanel();
+    sendResponse({ open: STATE.open, enabled: SITE_ENABLED });
+  }
+});
+
+// Hotkey (Alt+J unless changed; iframes forward it to the top frame's panel)
 window.addEventListener("keydown", (e) => {
-  if (e.altKey === HOTKEY.altKey && e.key.toLowerCase() === HOTKEY.key) {
-    togglePanel();
+  if (matchesHotkey(e)) { // uiRoot.js
+    if (IS_TOP_FRAME) togglePanel();
+    else if (SITE_ENABLED) chrome.runtime.sendMessage({ kind: "TOGGLE_PANEL" });
   }
 });
 
-// Auto-create but hidden; toggle shows it
-createPanel();
-document.getElementById("aws-assist-panel")!.style.display = "none";
+// Created hidden once the site is known to be enabled; toggle shows it. Child frames only act as agents (frames.js).
+function setUpPanel() {
+  if (!IS_TOP_FRAME || uiQuery("#aws-assist-panel")) return;
+  createPanel();
+  uiQuery("#aws-assist-panel")!.style.display = "none";
+}
 
 function collectDomHints(): string[] {
   const sels = [
     'a', 'button', '[role="button"]', '[role="link"]', 'h1', 'h2', 'h3'
   ];
   const els = Array.from(document.querySelectorAll<HTMLElement>(sels.join(',')));
-  const visible = (el: HTMLElement) => el.offsetWidth > 0 && el.offsetHeight > 0;
+  const visible = (el: HTMLElement) => el.offsetWidth > 0 && el.offsetHeight > 0 && !isAssistantNode(el);
   const texts = els
     .filter(visible)
     .map(e => (e.textContent || '').trim())
@@ -632,7 +1174,20 @@ function startStatusPolling(statusEl: HTMLElement) {
       chrome.runtime.sendMessage({ kind: 'GET_STATUS' }, (st: any) => {
         if (!st) return;
         const secs = Math.ceil((st.nextResetMs || 0) / 1000);
-        statusEl.textContent = `Queue: ${st.queue || 0} | RPM: ${st.rpmRemaining}/${st.rpmMax} | TPM: ${st.tpmRemaining}/${st.tpmMax} | Next: ${secs}s`;
+        // "~" marks our own estimate until the provider has sent rate-limit headers
+        const est = st.source === "server" ? "" : "~";
+        const used = st.lastUsage ? ` | Last: ${st.lastUsage.inputTokens}+${st.lastUsage.outputTokens} tok` : "";
+        statusEl.textContent = `${st.model ? `${st.model} | ` : ""}Queue: ${st.queue || 0} | RPM: ${est}${st.rpmRemaining}/${st.rpmMax} | TPM: ${est}${st.tpmRemaining}/${st.tpmMax} | Next: ${secs}s${used}`;
+        const c = STATE.lastContext;
+        if (c) {
+          statusEl.textContent += ` | Prompt: ~${c.total} tok (sys ${c.system}, summary ${c.summary}, chat ${c.history}, page ${c.context})`;
+          statusEl.title = `Token counts are estimates. ${c.summarizedMessages} older messages summarized, ${c.droppedHints} page hints trimmed`;
+        }
+        const redacted = Object.entries(STATE.lastRedacted || {});
+        if (redacted.length) {
+          statusEl.textContent += ` | Redacted: ${redacted.reduce((n, [, k]) => n + k, 0)}`;
+          statusEl.title += `\nMasked before sending: ${redactionList(STATE.lastRedacted!)}`;
+        }
       });
     } catch (_) { /* ignore */ }
   }
@@ -653,15 +1208,15 @@ function isLocalScanQuery(t: string): boolean {
 
 function buildLocalContextReport(): string {
   const linkEls = Array.from(document.querySelectorAll<HTMLAnchorElement>('a'))
-    .filter((e) => e.offsetWidth && e.offsetHeight)
+    .filter((e) => e.offsetWidth && e.offsetHeight && !isAssistantNode(e))
     .map((e) => (e.textContent || '').trim())
     .filter(Boolean);
   const btnEls = Array.from(document.querySelectorAll<HTMLElement>('button,[role="button"]'))
-    .filter((e) => e.offsetWidth && e.offsetHeight)
+    .filter((e) => e.offsetWidth && e.offsetHeight && !isAssistantNode(e))
     .map((e) => (e.textContent || '').trim())
     .filter(Boolean);
   const heads = Array.from(document.querySelectorAll<HTMLElement>('h1,h2,h3'))
-    .filter((e) => e.offsetWidth && e.offsetHeight)
+    .filter((e) => e.offsetWidth && e.offsetHeight && !isAssistantNode(e))
     .map((e) => (e.textContent || '').trim())
     .filter(Boolean);
 
@@ -678,24 +1233,19 @@ function buildLocalContextReport(): string {
   return lines.join('\n');
 }
 
-function parseFindStepsIntent(t: string): string | null {
-  const s = t.trim().toLowerCase();
-  const re = /(steps\s+to\s+find|how\s+to\s+find|find\s+steps\s+for)\s+(.+)/i;
-  const m = s.match(re);
-  if (m && m[2]) return m[2].trim();
+function matchLocalIntent(t: string): { reply: string; highlight?: string } | null {
+  const s = t.trim();
+  for (const intent of PROFILE.intents) {
+    let m: RegExpMatchArray | null = null;
+    try { m = s.match(new RegExp(intent.match, 'i')); } catch (_) { continue; }
+    if (!m) continue;
+    const arg = (m[1] || '').trim();
+    const reply = intent.steps.map((step, i) => `${i + 1}) ${step.replace(/\$1/g, arg)}`).join('\n');
+    return { reply, highlight: intent.highlight };
+  }
   return null;
 }
 
-function localFindPlan(target: string): string {
-  const q = target.replace(/^the\s+/, '');
-  return [
-    `1) Click the search box.`,
-    `2) Type: ${q}`,
-    `3) Press Enter to search.`,
-    `4) Click the result that matches "${q}" (e.g., the official site).`
-  ].join('\n');
-}
-
 function smallTalkReply(t: string): string | null {
   const s = t.trim().toLowerCase();
   const hello = /^(hi|hello|hey|yo|good\s*(morning|afternoon|evening))\b/.test(s);
@@ -0,0 +1,193 @@
+/* Accessibility-style page snapshot with stable element refs (classic script, loaded before panel.js) */
+// One line per interesting node — landmarks, headings and anything you can
+// interact with — indented by nesting, e.g.
+//   - navigation "Breadcrumbs"
+//     - link "IAM" [ref=e3]
+//   - button "Create role" [ref=e42] disabled
+// Refs stay the same for the same element across snapshots, so the model can
+// answer {"ref":"e42"} instead of echoing text that several buttons share.
+
+type SnapshotEntry = { role: string; name: string };
+
+const SNAPSHOT_MAX_NODES = 400;
+const SNAPSHOT_MAX_NAME = 80;
+
+const SNAP_REFS = new WeakMap<Element, string>();
+const SNAP_ELEMENTS = new Map<string, WeakRef<Element>>();
+const SNAP_ENTRIES = new Map<string, SnapshotEntry>(); // last seen role/name, for the text fallback
+let snapSeq = 0;
+
+const SNAP_LANDMARKS: Record<string, string> = {
+  MAIN: "main", NAV: "navigation", HEADER: "banner", FOOTER: "contentinfo", ASIDE: "complementary",
+  FORM: "form", DIALOG: "dialog", TABLE: "table"
+};
+const SNAP_CONTAINER_ROLES = new Set([
+  "main", "navigation", "banner", "contentinfo", "complementary", "form", "dialog", "alertdialog",
+  "region", "search", "table", "tablist", "menu", "menubar", "listbox", "tree", "grid", "radiogroup", "group", "toolbar"
+]);
+const SNAP_INTERACTIVE_ROLES = new Set([
+  "button", "link", "textbox", "searchbox", "combobox", "checkbox", "radio", "switch", "slider", "spinbutton",
+  "tab", "menuitem", "menuitemcheckbox", "menuitemradio", "option", "treeitem", "row", "gridcell"
+]);
+
+function snapshotRef(el: Element): string {
+  let ref = SNAP_REFS.get(el);
+  if (!ref) {
+    ref = `e${++snapSeq}`;
+    SNAP_REFS.set(el, ref);
+    SNAP_ELEMENTS.set(ref, new WeakRef(el));
+  }
+  return ref;
+}
+
+// The element behind a ref if it is still on the page and visible
+function resolveSnapshotRef(ref: string): HTMLElement | null {
+  const el = SNAP_ELEMENTS.get(ref)?.deref() as HTMLElement | undefined;
+  if (!el || !el.isConnected || !(el.offsetWidth || el.offsetHeight)) return null;
+  return el;
+}
+
+function snapshotEntry(ref: string): SnapshotEntry | null {
+  return SNAP_ENTRIES.get(ref) || null;
+}
+
+// Ref, role, name and state of one element, registered like a snapshot line
+function snapshotDescribe(el: HTMLElement): { ref: string; role: string; name: string; states: string[] } {
+  const role = snapshotRole(el) || el.tagName.toLowerCase();
+  const name = snapshotName(el, role);
+  const ref = snapshotRef(el);
+  SNAP_ENTRIES.set(ref, { role, name });
+  return { ref, role, name, states: snapshotStates(el, role) };
+}
+
+function snapshotRole(el: HTMLElement): string | null {
+  const explicit = (el.getAttribute("role") || "").split(/\s+/)[0].toLowerCase();
+  if (explicit && explicit !== "presentation" && explicit !== "none") return explicit;
+  const tag = el.tagName;
+  if (tag === "A") return (el as HTMLAnchorElement).href ? "link" : null;
+  if (tag === "BUTTON" || tag === "SUMMARY") return "button";
+  if (tag === "SELECT") return (el as HTMLSelectElement).multiple ? "listbox" : "combobox";
+  if (tag === "TEXTAREA") return "textbox";
+  if (tag === "INPUT") {
+    const t = ((el as HTMLInputElement).type || "text").toLowerCase();
+    if (t === "hidden") return null;
+    if (t === "checkbox" || t === "radio") return t;
+    if (t === "range") return "slider";
+    if (t === "number") return "spinbutton";
+    if (t === "search") return "searchbox";
+    if (t === "button" || t === "submit" || t === "reset" || t === "image") return "button";
+    return "textbox";
+  }
+  if (/^H[1-6]$/.test(tag)) return "heading";
+  if (tag === "SECTION" && (el.getAttribute("aria-label") || el.getAttribute("aria-labelledby"))) return "region";
+  if (SNAP_LANDMARKS[tag]) return SNAP_LANDMARKS[tag];
+  if (el.isContentEditable && el.getAttribute("contenteditable") !== null) return "textbox";
+  const tabIndex = el.getAttribute("tabindex");
+  if (tabIndex && parseInt(tabIndex, 10) >= 0 && el.onclick) return "button";
+  return null;
+}
+
+function snapshotName(el: HTMLElement, role: string): string {
+  const clip = (s: string) => s.replace(/\s+/g, " ").trim().slice(0, SNAPSHOT_MAX_NAME);
+  const aria = el.getAttribute("aria-label");
+  if (aria && aria.trim()) return clip(aria);
+  const labelledBy = (el.getAttribute("aria-labelledby") || "").split(/\s+/).filter(Boolean)
+    .map((id) => el.ownerDocument.getElementById(id)?.textContent || "").join(" ");
+  if (labelledBy.trim()) return clip(labelledBy);
+  const labels = (el as HTMLInputElement).labels;
+  if (labels && labels.length) return clip(labels[0].textContent || "");
+  if (el.tagName === "IMG" || (el as HTMLInputElement).type === "image") return clip(el.getAttribute("alt") || "");
+  // Containers are named only explicitly; their text is their children
+  if (SNAP_CONTAINER_ROLES.has(role)) return "";
+  if (role === "textbox" || role === "searchbox" || role === "combobox" && el.tagName !== "BUTTON") {
+    return clip(el.getAttribute("placeholder") || el.getAttribute("title") || "");
+  }
+  return clip(el.textContent || el.getAttribute("title") || el.querySelector("img[alt]")?.getAttribute("alt") || "");
+}
+
+function snapshotStates(el: HTMLElement, role: string): string[] {
+  const out: string[] = [];
+  const attr = (n: string) => el.getAttribute(n);
+  if (role === "heading") out.push(`[level=${attr("aria-level") || el.tagName.slice(1)}]`);
+  if ((el as HTMLButtonElement).disabled || attr("aria-disabled") === "true") out.push("disabled");
+  const input = el as HTMLInputElement;
+  if (role === "checkbox" || role === "radio" || role === "switch") {
+    const checked = el.tagName === "INPUT" ? input.checked : attr("aria-checked") === "true";
+    out.push(checked ? "checked" : "unchecked");
+  }
+  if (attr("aria-expanded")) out.push(attr("aria-expanded") === "true" ? "expanded" : "collapsed");
+  if (attr("aria-selected") === "true" || attr("aria-current") && attr("aria-current") !== "false") out.push("selected");
+  if (input.required || attr("aria-required") === "true") out.push("required");
+  if (attr("aria-invalid") === "true") out.push("invalid");
+  if (role === "textbox" || role === "searchbox" || role === "spinbutton" || (role === "combobox" && el.tagName !== "BUTTON")) {
+    const value = el.tagName === "SELECT" ? (el as HTMLSelectElement).selectedOptions[0]?.text || "" : input.value || "";
+    const secret = snapshotSecret(el);
+    if (value && secret !== "skip") out.push(secret === "mask" ? 'value="[masked]"' : `value=${JSON.stringify(value.slice(0, 60))}`);
+  }
+  return out;
+}
+
+// One-time codes, card data and current passwords are left out entirely; fields
+// whose label, name, id or autocomplete sound secret are masked like awsContext.js does
+function snapshotSecret(el: HTMLElement): "skip" | "mask" | null {
+  const input = el as HTMLInputElement;
+  const autocomplete = (el.getAttribute("autocomplete") || "").toLowerCase();
+  if (/(^|\s)(one-time-code|current-password|cc-[a-z-]+)(\s|$)/.test(autocomplete)) return "skip";
+  if (input.type === "password") return "mask";
+  const labels = Array.from(input.labels || []).map((l) => l.textContent || "").join(" ");
+  const names = `${labels} ${el.getAttribute("aria-label") || ""} ${input.name || ""} ${el.id} ${autocomplete}`;
+  return AWS_SENSITIVE_NAME.test(names) ? "mask" : null; // awsContext.js
+}
+
+// Forget refs whose element has been collected; a long-lived SPA tab would
+// otherwise grow both maps with every re-render
+function pruneSnapshotRefs() {
+  for (const [ref, weak] of SNAP_ELEMENTS) {
+    if (weak.deref()) continue;
+    SNAP_ELEMENTS.delete(ref);
+    SNAP_ENTRIES.delete(ref);
+  }
+}
+
+// Lines of the snapshot for this document; refs are registered as we go
+function buildPageSnapshot(maxNodes = SNAPSHOT_MAX_NODES): string[] {
+  pruneSnapshotRefs();
+  const lines: string[] = [];
+  const visit = (node: Element, depth: number) => {
+    if (lines.length >= maxNodes || isAssistantNode(node)) return;
+    const el = node as HTMLElement;
+    if (el.getAttribute?.("aria-hidden") === "true") return;
+    const tag = el.tagName;
+    if (tag === "SCRIPT" || tag === "STYLE" || tag === "TEMPLATE" || tag === "NOSCRIPT") return;
+    // Hidden subtrees have no layout (offsetParent is null for fixed elements too, so check size)
+    if (el !== document.body && el instanceof HTMLElement && !(el.offsetWidth || el.offsetHeight || el.getClientRects().length)) return;
+
+    let childDepth = depth;
+    const role = el instanceof HTMLElement ? snapshotRole(el) : null;
+    if (role) {
+      const name = snapshotName(el, role);
+      const container = SNAP_CONTAINER_ROLES.has(role);
+      const interactive = SNAP_INTERACTIVE_ROLES.has(role);
+      // Skip nameless links/buttons (icon wrappers without labels) and unnamed generic groups
+      if (interactive ? name || role === "textbox" || role === "combobox" || role === "checkbox" || role === "radio" : role === "heading" ? name : container) {
+        const parts = [`${"  ".repeat(depth)}- ${role}`];
+        if (name) parts.push(JSON.stringify(name));
+        if (interactive || role === "heading") {
+          const ref = snapshotRef(el);
+          SNAP_ENTRIES.set(ref, { role, name });
+          parts.push(`[ref=${ref}]`);
+        }
+        parts.push(...snapshotStates(el, role));
+        lines.push(parts.join(" "));
+        childDepth = depth + 1;
+        // A control's own text is its name; don't list it twice
+        if (interactive && role !== "row" && role !== "gridcell") return;
+      }
+    }
+    const shadow = (el as any).shadowRoot as ShadowRoot | null;
+    const children = shadow ? [...Array.from(shadow.children), ...Array.from(el.children)] : Array.from(el.children);
+    for (const child of children) visit(child, childDepth);
+  };
+  if (document.body) visit(document.body, 0);
+  return lines;
+}
@@ -0,0 +1,163 @@
+/* Multi-step guided tours (classic script, loaded before panel.js) */
+// {"action":"tour","steps":[{"target":{...},"instruction":"...","expect":{...}}]}
+// Only the current step is highlighted. A step advances when the user clicks
+// its element, or when its `expect` target (default: the next step's target)
+// shows up after the page changed — e.g. an in-page route change in the AWS console.
+
+type TourStep = { target: FindQuery; instruction: string; expect?: FindQuery };
+
+type TourState = {
+  steps: TourStep[];
+  index: number;
+  el: HTMLElement | null;
+  expectPresent: boolean; // advance on absent -> present, not on something already there
+  href: string;
+  observer: MutationObserver | null;
+  routeTimer: number | null;
+  recheckTimer: number | null;
+};
+
+let TOUR: TourState | null = null;
+
+function parseTour(obj: any): TourStep[] | null {
+  if (obj?.action !== "tour" || !Array.isArray(obj.steps)) return null;
+  const toQuery = (t: any): FindQuery | undefined => {
+    if (!t) return undefined;
+    if (typeof t === "string") return { text: t.trim() };
+    return normalizeTargets([t])[0];
+  };
+  const steps: TourStep[] = [];
+  for (const s of obj.steps) {
+    const target = toQuery(s?.target);
+    if (!target || (!target.text && !target.role && !target.ref)) continue;
+    steps.push({ target, instruction: String(s.instruction || target.text || ""), expect: toQuery(s.expect) });
+  }
+  return steps.length ? steps : null;
+}
+
+function startTour(steps: TourStep[]) {
+  endTour();
+  TOUR = { steps, index: 0, el: null, expectPresent: false, href: location.href, observer: null, routeTimer: null, recheckTimer: null };
+
+  // DOM changes: re-resolve a detached target and check for the expected element
+  TOUR.observer = new MutationObserver((records) => {
+    if (records.every((r) => isAssistantNode(r.target))) return; // our host element
+    scheduleTourRecheck();
+  });
+  TOUR.observer.observe(document.body, { childList: true, subtree: true });
+  // Route changes happen in the page's world (pushState) where we can't hook
+  // history, so poll the URL while a tour runs.
+  TOUR.routeTimer = window.setInterval(() => {
+    if (!TOUR || TOUR.href === location.href) return;
+    TOUR.href = location.href;
+    scheduleTourRecheck();
+  }, 500);
+  document.addEventListener("click", onTourClick, true);
+  showTourStep(0);
+}
+
+function endTour() {
+  if (!TOUR) return;
+  TOUR.observer?.disconnect();
+  if (TOUR.routeTimer != null) clearInterval(TOUR.routeTimer);
+  if (TOUR.recheckTimer != null) clearTimeout(TOUR.recheckTimer);
+  document.removeEventListener("click", onTourClick, true);
+  TOUR = null;
+  cleanupHighlights();
+  renderTourBar();
+}
+
+function showTourStep(index: number) {
+  if (!TOUR) return;
+  if (index >= TOUR.steps.length) {
+    const chat = uiQuery<HTMLDivElement>("#aws-assist-panel .aws-assist-chat");
+    endTour();
+    if (chat) renderSystemNote(chat, "Tour complete.");
+    return;
+  }
+  TOUR.index = Math.max(0, index);
+  TOUR.el = null;
+  const expect = tourExpectation();
+  TOUR.expectPresent = !!expect && findCandidates(expect).length > 0;
+  resolveTourTarget();
+  renderTourBar();
+}
+
+function resolveTourTarget() {
+  if (!TOUR) return;
+  const step = TOUR.steps[TOUR.index];
+  const el = findCandidates(step.target)[0] || null;
+  TOUR.el = el;
+  if (el) highlightElements([el], `Step ${TOUR.index + 1}`);
+  else cleanupHighlights();
+}
+
+function tourExpectation(): FindQuery | undefined {
+  if (!TOUR) return undefined;
+  return TOUR.steps[TOUR.index].expect || TOUR.steps[TOUR.index + 1]?.target;
+}
+
+function scheduleTourRecheck() {
+  if (!TOUR || TOUR.recheckTimer != null) return;
+  TOUR.recheckTimer = window.setTimeout(() => {
+    if (!TOUR) return;
+    TOUR.recheckTimer = null;
+    const step = TOUR.steps[TOUR.index];
+    const expect = tourExpectation();
+    const targetGone = !TOUR.el || !TOUR.el.isConnected;
+    // Navigation took the user past this step. Without an explicit `expect`
+    // only trust the next target once this step's own element went away.
+    if (expect && (step.expect || targetGone)) {
+      const present = findCandidates(expect).length > 0;
+      if (present && !TOUR.expectPresent) {
+        showTourStep(TOUR.index + 1);
+        return;
+      }
+      TOUR.expectPresent = present;
+    }
+    if (targetGone) {
+      resolveTourTarget();
+      renderTourBar();
+    }
+  }, 250);
+}
+
+function onTourClick(e: MouseEvent) {
+  if (!TOUR?.el) return;
+  const t = e.target as Node | null;
+  if (!t || !TOUR.el.contains(t)) return;
+  const at = TOUR.index;
+  // Let the click's own navigation run before moving on
+  setTimeout(() => { if (TOUR && TOUR.index === at) showTourStep(at + 1); }, 300);
+}
+
+function renderTourBar() {
+  const bar = uiQuery<HTMLDivElement>("#aws-assist-panel .aws-assist-tour");
+  if (!bar) return;
+  bar.innerHTML = "";
+  if (!TOUR) {
+    bar.style.display = "none";
+    return;
+  }
+  bar.style.display = "flex";
+  const step = TOUR.steps[TOUR.index];
+  const info = document.createElement("div");
+  info.className = "aws-assist-tour-info";
+  const count = document.createElement("strong");
+  count.textContent = `Step ${TOUR.index + 1} of ${TOUR.steps.length}`;
+  const text = document.createElement("span");
+  text.textContent = TOUR.el ? step.instruction : `${step.instruction} (waiting for '${step.target.text || step.target.role}' to appear)`;
+  info.append(count, text);
+
+  const back = document.createElement("button");
+  back.textContent = "Back";
+  back.disabled = TOUR.index === 0;
+  back.onclick = () => TOUR && showTourStep(TOUR.index - 1);
+  const next = document.createElement("button");
+  next.textContent = TOUR.index === TOUR.steps.length - 1 ? "Finish" : "Next";
+  next.onclick = () => TOUR && showTourStep(TOUR.index + 1);
+  const stop = document.createElement("button");
+  stop.textContent = "End tour";
+  stop.onclick = () => endTour();
+  bar.append(info, back, next, stop);
+}
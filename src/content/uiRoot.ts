@@ -0,0 +1,63 @@
+/* Isolated UI host (classic script, loaded first) */
+// The panel and the highlight layer render inside one closed shadow root so
+// host-page CSS can't restyle them, and page scans (which never enter closed
+// roots) can't match the assistant's own buttons.
+
+const UI_HOST_ID = "aws-assist-root";
+let uiHost: HTMLElement | null = null;
+let uiShadow: ShadowRoot | null = null;
+
+// Set on the options page; the worker sends it parsed (GET_SETTINGS / SETTINGS_CHANGED).
+// Kept here so the key guard below works on pages without panel.js (bench.html).
+type Hotkey = { altKey: boolean; ctrlKey: boolean; shiftKey: boolean; metaKey: boolean; key: string };
+let HOTKEY: Hotkey = { altKey: true, ctrlKey: false, shiftKey: false, metaKey: false, key: "j" };
+let HOTKEY_LABEL = "Alt+J";
+
+function matchesHotkey(e: KeyboardEvent): boolean {
+  if (e.altKey !== HOTKEY.altKey || e.ctrlKey !== HOTKEY.ctrlKey || e.metaKey !== HOTKEY.metaKey || e.shiftKey !== HOTKEY.shiftKey) return false;
+  // Alt on macOS changes e.key ("∆" for Alt+J), so also compare the physical key
+  const k = HOTKEY.key;
+  return e.key.toLowerCase() === k || e.code === `Key${k.toUpperCase()}` || e.code === `Digit${k}`;
+}
+
+function getUiRoot(): ShadowRoot {
+  if (uiShadow && uiHost?.isConnected) return uiShadow;
+  uiHost = document.createElement("div");
+  uiHost.id = UI_HOST_ID;
+  Object.assign(uiHost.style, {
+    position: "fixed",
+    left: "0",
+    top: "0",
+    width: "0",
+    height: "0",
+    overflow: "visible",
+    zIndex: "2147483647"
+  });
+  uiShadow = uiHost.attachShadow({ mode: "closed" });
+  const sheet = document.createElement("link");
+  sheet.rel = "stylesheet";
+  sheet.href = chrome.runtime.getURL("ui/styles.css");
+  uiShadow.appendChild(sheet);
+
+  // Keep our keystrokes away from page shortcuts (e.g. "/" focusing a search box);
+  // the panel hotkey (whatever the options set) still has to reach our window listener.
+  for (const type of ["keydown", "keyup", "keypress"]) {
+    uiHost.addEventListener(type, (e) => {
+      if (!matchesHotkey(e as KeyboardEvent)) e.stopPropagation();
+    });
+  }
+  document.documentElement.appendChild(uiHost);
+  return uiShadow;
+}
+
+function uiQuery<T extends Element = HTMLElement>(selector: string): T | null {
+  return (uiShadow?.querySelector(selector) as T | null) ?? null;
+}
+
+// True for the assistant's host element (and, via composed trees, anything in it)
+function isAssistantNode(node: Node | null | undefined): boolean {
+  if (!node || !uiHost) return false;
+  if (node === uiHost || uiHost.contains(node)) return true;
+  const root = node.getRootNode();
+  return root === uiShadow;
+}
@@ -0,0 +1,178 @@
+/* Voice: push-to-talk input and spoken answers (classic script, loaded before panel.js) */
+// The mic button records while held: the offscreen document transcribes, the
+// worker relays interim text into the input (SPEECH_EVENT) and the final
+// transcript is sent as a question. Finished answers are read aloud by the
+// worker's chrome.tts when the speaker toggle is on; TTS_STATE drives the
+// pause/stop buttons.
+
+type SpeechState = "idle" | "speaking" | "paused";
+
+const VOICE = {
+  readAloud: false,
+  readAloudSet: false, // the user toggled it in this tab; settings no longer override
+  listening: false,
+  speech: "idle" as SpeechState,
+  input: null as HTMLInputElement | null,
+  onTranscript: null as ((text: string) => void) | null,
+  mic: null as HTMLButtonElement | null,
+  controls: null as HTMLDivElement | null
+};
+
+// Mic for the input row: hold with the mouse, or with Space/Enter while focused
+function createMicButton(input: HTMLInputElement, onTranscript: (text: string) => void): HTMLButtonElement {
+  VOICE.input = input;
+  VOICE.onTranscript = onTranscript;
+  const mic = document.createElement("button");
+  mic.className = "aws-assist-mic";
+  mic.textContent = "🎤";
+  mic.title = "Hold to talk";
+  mic.setAttribute("aria-label", "Hold to talk");
+  mic.setAttribute("aria-pressed", "false");
+  mic.addEventListener("pointerdown", (e) => {
+    e.preventDefault();
+    mic.setPointerCapture(e.pointerId); // release fires here even if the pointer wanders off
+    startListening();
+  });
+  mic.addEventListener("pointerup", stopListening);
+  mic.addEventListener("pointercancel", stopListening);
+  mic.addEventListener("keydown", (e) => {
+    if ((e.key === " " || e.key === "Enter") && !e.repeat) {
+      e.preventDefault();
+      startListening();
+    }
+  });
+  mic.addEventListener("keyup", (e) => {
+    if (e.key === " " || e.key === "Enter") stopListening();
+  });
+  VOICE.mic = mic;
+  return mic;
+}
+
+function startListening() {
+  if (VOICE.listening) return;
+  VOICE.listening = true;
+  stopSpeaking(); // don't transcribe our own voice
+  setMicState(true);
+  chrome.runtime.sendMessage({ kind: "SPEECH_START" }, (res: any) => {
+    if (res?.ok) return;
+    VOICE.listening = false;
+    setMicState(false);
+    voiceNote(`Voice input unavailable: ${res?.error || "no answer from the extension"}`);
+  });
+}
+
+function stopListening() {
+  if (!VOICE.listening) return;
+  VOICE.listening = false;
+  setMicState(false);
+  chrome.runtime.sendMessage({ kind: "SPEECH_STOP" });
+}
+
+function setMicState(on: boolean) {
+  VOICE.mic?.setAttribute("aria-pressed", String(on));
+  VOICE.mic?.classList.toggle("listening", on);
+}
+
+function onSpeechEvent(msg: any) {
+  const input = VOICE.input;
+  if (msg.type === "interim") {
+    if (input && msg.text) input.value = msg.text;
+  } else if (msg.type === "end") {
+    VOICE.listening = false;
+    setMicState(false);
+    const text = String(msg.text || "").trim();
+    if (text && input) {
+      input.value = text;
+      VOICE.onTranscript?.(text);
+    }
+  } else if (msg.type === "error") {
+    VOICE.listening = false;
+    setMicState(false);
+    voiceNote(msg.error === "not-allowed" || msg.error === "service-not-allowed"
+      ? "The microphone is blocked for the extension. Open the extension's options, Voice, and click Allow microphone."
+      : `Voice input failed: ${msg.error}`);
+  }
+}
+
+// Header controls: read-aloud toggle, pause/resume and stop while speaking
+function createSpeechControls(): HTMLDivElement {
+  const wrap = document.createElement("div");
+  wrap.className = "aws-assist-speech";
+  // The header drags the panel; clicks on these must not start a drag
+  wrap.addEventListener("mousedown", (e) => e.stopPropagation());
+  const toggle = document.createElement("button");
+  toggle.className = "aws-assist-read-aloud";
+  toggle.onclick = () => {
+    VOICE.readAloud = !VOICE.readAloud;
+    VOICE.readAloudSet = true;
+    if (!VOICE.readAloud) stopSpeaking();
+    renderSpeechControls();
+  };
+  const pause = document.createElement("button");
+  pause.className = "aws-assist-speech-pause";
+  pause.onclick = () => {
+    chrome.runtime.sendMessage({ kind: "TTS_CONTROL", action: VOICE.speech === "paused" ? "resume" : "pause" });
+  };
+  const stop = document.createElement("button");
+  stop.className = "aws-assist-speech-stop";
+  stop.textContent = "■";
+  stop.title = "Stop reading";
+  stop.onclick = stopSpeaking;
+  wrap.append(toggle, pause, stop);
+  VOICE.controls = wrap;
+  renderSpeechControls();
+  return wrap;
+}
+
+function renderSpeechControls() {
+  const wrap = VOICE.controls;
+  if (!wrap) return;
+  const toggle = wrap.querySelector<HTMLButtonElement>(".aws-assist-read-aloud")!;
+  toggle.textContent = VOICE.readAloud ? "🔊" : "🔈";
+  toggle.title = VOICE.readAloud ? "Reading answers aloud (click to turn off)" : "Read answers aloud";
+  toggle.setAttribute("aria-pressed", String(VOICE.readAloud));
+  const pause = wrap.querySelector<HTMLButtonElement>(".aws-assist-speech-pause")!;
+  pause.textContent = VOICE.speech === "paused" ? "▶" : "⏸";
+  pause.title = VOICE.speech === "paused" ? "Resume reading" : "Pause reading";
+  const active = VOICE.speech !== "idle";
+  pause.style.display = active ? "" : "none";
+  wrap.querySelector<HTMLButtonElement>(".aws-assist-speech-stop")!.style.display = active ? "" : "none";
+}
+
+// Called with each finished answer; the worker skips JSON and code
+function speakAnswer(text: string) {
+  if (!VOICE.readAloud || !text.trim()) return;
+  chrome.runtime.sendMessage({ kind: "TTS_SPEAK", text });
+}
+
+function stopSpeaking() {
+  if (VOICE.speech === "idle") return;
+  chrome.runtime.sendMessage({ kind: "TTS_CONTROL", action: "stop" });
+}
+
+function onTtsState(msg: any) {
+  const state = msg.state as string;
+  VOICE.speech = state === "start" || state === "resume" ? "speaking" : state === "pause" ? "paused" : "idle";
+  if (state === "error" && msg.error) voiceNote(`Could not read the answer aloud: ${msg.error}`);
+  renderSpeechControls();
+}
+
+// Settings give the default; a toggle in this tab wins until reload
+function applyVoiceSettings(v: { readAloud?: boolean } | undefined) {
+  if (!v || VOICE.readAloudSet) return;
+  VOICE.readAloud = !!v.readAloud;
+  renderSpeechControls();
+}
+
+function voiceNote(text: string) {
+  const chat = uiQuery<HTMLDivElement>("#aws-assist-panel .aws-assist-chat");
+  if (chat) renderSystemNote(chat, text);
+}
+
+// Only the top frame has a panel to talk into
+if (IS_TOP_FRAME) {
+  chrome.runtime.onMessage.addListener((msg: any) => {
+    if (msg?.kind === "SPEECH_EVENT") onSpeechEvent(msg);
+    else if (msg?.kind === "TTS_STATE") onTtsState(msg);
+  });
+}
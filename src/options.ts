@@ -0,0 +1,324 @@
+import { listProviders } from './background/providers.js';
+import { BUILT_IN_PROFILES, normalizeProfile, type SiteProfile } from './background/profiles.js';
+import { DEFAULT_SETTINGS, loadSettings, normalizeRule, normalizeSettings, parseHotkey, saveSettings, type Settings } from './background/settings.js';
+import { BUILT_IN_DETECTORS, type RedactionRule } from './background/redact.js';
+
+const $ = <T extends HTMLElement>(id: string) => document.getElementById(id) as T;
+const modelsEl = $<HTMLDivElement>('models');
+const minIntervalEl = $<HTMLInputElement>('minIntervalMs');
+const rpmEl = $<HTMLInputElement>('rpm');
+const tpmEl = $<HTMLInputElement>('tpm');
+const maxToolStepsEl = $<HTMLInputElement>('maxToolSteps');
+const hotkeyEl = $<HTMLInputElement>('hotkey');
+const autoLockEl = $<HTMLInputElement>('autoLockMinutes');
+const disabledSitesEl = $<HTMLTextAreaElement>('disabledSites');
+const keysStatusEl = $<HTMLSpanElement>('keysStatus');
+const voiceNameEl = $<HTMLSelectElement>('voiceName');
+const voiceRateEl = $<HTMLInputElement>('voiceRate');
+const voiceLangEl = $<HTMLInputElement>('voiceLang');
+const readAloudEl = $<HTMLInputElement>('readAloud');
+const micStatusEl = $<HTMLSpanElement>('micStatus');
+const redactionEnabledEl = $<HTMLInputElement>('redactionEnabled');
+const detectorsEl = $<HTMLDivElement>('detectors');
+const redactionRulesEl = $<HTMLTextAreaElement>('redactionRules');
+const builtinsEl = $<HTMLDivElement>('builtins');
+const profilesEl = $<HTMLDivElement>('profiles');
+const importFileEl = $<HTMLInputElement>('importFile');
+const statusEl = $<HTMLSpanElement>('status');
+
+const DETECTOR_NAMES: Record<string, string> = {
+  ARN: 'ARNs',
+  ACCESS_KEY: 'Access key IDs (AKIA…, ASIA…)',
+  EMAIL: 'Email addresses',
+  IP: 'IPv4 addresses',
+  ACCOUNT_ID: 'Account IDs (12 digits)'
+};
+const detectorInputs = new Map<string, HTMLInputElement>();
+for (const d of BUILT_IN_DETECTORS) {
+  const label = document.createElement('label');
+  const cb = document.createElement('input');
+  cb.type = 'checkbox';
+  label.append(cb, ` ${DETECTOR_NAMES[d.label] || d.label}`);
+  detectorInputs.set(d.label, cb);
+  detectorsEl.appendChild(label);
+}
+
+const providers = listProviders();
+const modelInputs = new Map<string, HTMLInputElement>();
+for (const p of providers) {
+  const label = document.createElement('label');
+  label.textContent = p.label;
+  const input = document.createElement('input');
+  input.type = 'text';
+  input.placeholder = p.defaultModel;
+  modelInputs.set(p.id, input);
+  modelsEl.append(label, input);
+}
+
+function render(s: Settings) {
+  for (const p of providers) modelInputs.get(p.id)!.value = s.models[p.id] || '';
+  minIntervalEl.value = String(s.minIntervalMs);
+  rpmEl.value = String(s.rpm);
+  tpmEl.value = String(s.tpm);
+  maxToolStepsEl.value = String(s.maxToolSteps);
+  hotkeyEl.value = s.hotkey;
+  autoLockEl.value = String(s.autoLockMinutes);
+  disabledSitesEl.value = s.disabledSites.join('\n');
+  renderVoice(s.voice);
+  redactionEnabledEl.checked = s.redaction.enabled;
+  for (const [label, cb] of detectorInputs) cb.checked = !s.redaction.off.includes(label);
+  redactionRulesEl.value = s.redaction.rules.map(formatRule).join('\n');
+  renderProfiles(s.profiles);
+}
+
+function formatRule(r: RedactionRule): string {
+  return r.flags ? `${r.label} = /${r.pattern}/${r.flags}` : `${r.label} = ${r.pattern}`;
+}
+
+// "LABEL = pattern" or "LABEL = /pattern/flags" per line; a bad line stops the save
+function readRules(): RedactionRule[] {
+  const rules: RedactionRule[] = [];
+  const lines = redactionRulesEl.value.split('\n');
+  lines.forEach((line, i) => {
+    if (!line.trim()) return;
+    const m = line.match(/^\s*([^=]+?)\s*=\s*(.+?)\s*$/);
+    const literal = m?.[2].match(/^\/(.+)\/([a-z]*)$/);
+    const raw = m && { label: m[1], pattern: literal ? literal[1] : m[2], flags: literal?.[2] };
+    const rule = raw && normalizeRule(raw);
+    if (!rule) {
+      redactionRulesEl.focus();
+      throw new Error(`Redaction rule on line ${i + 1} is invalid: use LABEL = pattern with a capitalised LABEL and a regular expression that can't match empty text`);
+    }
+    if (BUILT_IN_DETECTORS.some((d) => d.label === rule.label)) throw new Error(`Redaction rule on line ${i + 1}: ${rule.label} is a built-in label`);
+    rules.push(rule);
+  });
+  return rules;
+}
+
+// Voices are per device; a synced name this device lacks stays selectable so it isn't lost on save
+function renderVoice(v: Settings['voice']) {
+  chrome.tts.getVoices((voices) => {
+    voiceNameEl.length = 1;
+    const names = voices.map((x) => x.voiceName).filter((n): n is string => !!n);
+    if (v.voiceName && !names.includes(v.voiceName)) names.unshift(v.voiceName);
+    for (const name of names) {
+      const voice = voices.find((x) => x.voiceName === name);
+      voiceNameEl.add(new Option(voice ? `${name}${voice.lang ? ` (${voice.lang})` : ''}` : `${name} (not on this device)`, name));
+    }
+    voiceNameEl.value = v.voiceName;
+  });
+  voiceRateEl.value = String(v.rate);
+  voiceLangEl.value = v.lang;
+  readAloudEl.checked = v.readAloud;
+}
+
+// User profiles are edited as JSON, one card each
+function renderProfiles(list: SiteProfile[]) {
+  profilesEl.innerHTML = '';
+  for (const p of list) addProfileCard(p);
+  renderBuiltins();
+}
+
+function addProfileCard(p: SiteProfile) {
+  const card = document.createElement('div');
+  card.className = 'profile';
+  const head = document.createElement('div');
+  head.className = 'profile-head';
+  const title = document.createElement('strong');
+  title.textContent = p.name;
+  const note = document.createElement('span');
+  note.textContent = BUILT_IN_PROFILES.some((b) => b.id === p.id) ? `replaces the built-in "${p.id}" profile` : p.hosts.join(', ');
+  const remove = document.createElement('button');
+  remove.textContent = 'Remove';
+  remove.onclick = () => { card.remove(); renderBuiltins(); };
+  head.append(title, note, remove);
+  const text = document.createElement('textarea');
+  text.value = JSON.stringify(p, null, 2);
+  text.spellcheck = false;
+  card.append(head, text);
+  profilesEl.appendChild(card);
+}
+
+function userProfileIds(): string[] {
+  return Array.from(profilesEl.querySelectorAll('textarea')).map((t) => {
+    try { return JSON.parse(t.value)?.id; } catch (_) { return null; }
+  }).filter(Boolean);
+}
+
+function renderBuiltins() {
+  builtinsEl.innerHTML = '';
+  const overridden = new Set(userProfileIds());
+  for (const b of BUILT_IN_PROFILES) {
+    const row = document.createElement('div');
+    row.className = 'profile profile-head';
+    const title = document.createElement('strong');
+    title.textContent = b.name;
+    const note = document.createElement('span');
+    note.textContent = overridden.has(b.id) ? 'customized below' : (b.hosts.join(', ') || 'any other site');
+    const customize = document.createElement('button');
+    customize.textContent = 'Customize';
+    customize.disabled = overridden.has(b.id);
+    customize.onclick = () => { addProfileCard(b); renderBuiltins(); };
+    row.append(title, note, customize);
+    builtinsEl.appendChild(row);
+  }
+}
+
+function readForm(): Settings {
+  const models: Record<string, string> = {};
+  for (const [id, input] of modelInputs) if (input.value.trim()) models[id] = input.value.trim();
+  const profiles: SiteProfile[] = [];
+  for (const t of Array.from(profilesEl.querySelectorAll('textarea'))) {
+    let raw: any;
+    try { raw = JSON.parse(t.value); } catch (e: any) {
+      t.focus();
+      throw new Error(`Profile JSON is invalid: ${e?.message || e}`);
+    }
+    const p = normalizeProfile(raw);
+    if (!p) {
+      t.focus();
+      throw new Error('Each profile needs an "id" made of letters, digits, "-" or "_"');
+    }
+    profiles.push(p);
+  }
+  return normalizeSettings({
+    models,
+    minIntervalMs: minIntervalEl.value,
+    rpm: rpmEl.value,
+    tpm: tpmEl.value,
+    maxToolSteps: maxToolStepsEl.value,
+    hotkey: hotkeyEl.value,
+    autoLockMinutes: autoLockEl.value,
+    disabledSites: disabledSitesEl.value.split('\n'),
+    redaction: {
+      enabled: redactionEnabledEl.checked,
+      off: Array.from(detectorInputs).filter(([, cb]) => !cb.checked).map(([label]) => label),
+      rules: readRules()
+    },
+    voice: { voiceName: voiceNameEl.value, rate: voiceRateEl.value, lang: voiceLangEl.value, readAloud: readAloudEl.checked },
+    profiles
+  });
+}
+
+function readFormOrReport(): Settings | null {
+  try {
+    return readForm();
+  } catch (e: any) {
+    showStatus(e?.message || String(e), true);
+    return null;
+  }
+}
+
+function showStatus(text: string, error = false) {
+  statusEl.textContent = text;
+  statusEl.className = error ? 'err' : 'ok';
+}
+
+async function save(s: Settings, note: string) {
+  try {
+    await saveSettings(s);
+    render(normalizeSettings(s));
+    showStatus(note);
+  } catch (e: any) {
+    // Sync storage caps each item at 8 KB; long prompts are the usual cause
+    showStatus(`Not saved: ${e?.message || e}`, true);
+  }
+}
+
+// Record the combination instead of making people type "Ctrl+Shift+K"
+hotkeyEl.addEventListener('keydown', (e) => {
+  if (e.key === 'Tab') return;
+  e.preventDefault();
+  if (['Alt', 'Control', 'Shift', 'Meta'].includes(e.key)) return;
+  const key = e.code.startsWith('Key') ? e.code.slice(3) : e.code.startsWith('Digit') ? e.code.slice(5) : e.key.toUpperCase();
+  const combo = [e.ctrlKey && 'Ctrl', e.altKey && 'Alt', e.shiftKey && 'Shift', e.metaKey && 'Meta', key].filter(Boolean).join('+');
+  if (parseHotkey(combo)) {
+    hotkeyEl.value = combo;
+    showStatus('');
+  } else {
+    showStatus('Use a letter or digit with Ctrl, Alt or Meta', true);
+  }
+});
+
+// Extension pages share one origin: a grant here covers the offscreen recognizer
+$<HTMLButtonElement>('allowMic').addEventListener('click', async () => {
+  try {
+    const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+    stream.getTracks().forEach((t) => t.stop());
+    micStatusEl.textContent = 'Microphone allowed';
+    micStatusEl.className = 'ok';
+  } catch (e: any) {
+    micStatusEl.textContent = `Microphone blocked: ${e?.message || e}`;
+    micStatusEl.className = 'err';
+  }
+});
+
+$<HTMLButtonElement>('testVoice').addEventListener('click', () => {
+  const rate = Number(voiceRateEl.value);
+  chrome.tts.speak('This is how answers will sound.', {
+    voiceName: voiceNameEl.value || undefined,
+    rate: Number.isFinite(rate) ? Math.min(2, Math.max(0.5, rate)) : 1
+  });
+});
+
+// Also the way out of a forgotten passphrase: the encrypted keys can't be recovered
+$<HTMLButtonElement>('forgetKeys').addEventListener('click', () => {
+  if (!confirm('Delete every API key saved on this device? You will need to enter them again.')) return;
+  chrome.runtime.sendMessage({ kind: 'RESET_KEYS' }, () => {
+    keysStatusEl.textContent = 'Saved keys deleted';
+    keysStatusEl.className = 'ok';
+  });
+});
+
+$<HTMLButtonElement>('save').addEventListener('click', () => {
+  const s = readFormOrReport();
+  if (s) save(s, 'Saved');
+});
+
+$<HTMLButtonElement>('addProfile').addEventListener('click', () => {
+  const ids = new Set([...userProfileIds(), ...BUILT_IN_PROFILES.map((b) => b.id)]);
+  let n = 1;
+  while (ids.has(`site-${n}`)) n++;
+  addProfileCard({
+    id: `site-${n}`,
+    name: 'My site',
+    hosts: ['example.com', '*.example.com'],
+    prompt: 'You are an assistant for example.com.\nAnswer in short steps and refer to controls by their visible names.',
+    icons: { search: ['find'] },
+    selectors: { search: ['#site-search'] },
+    panel: { title: 'Example Assistant', placeholder: "Ask about example.com, or say 'highlight Sign in'..." },
+    intents: [{ match: '^where\\s+is\\s+(.+)$', steps: ['Open the menu.', 'Look for "$1".'], highlight: 'search' }]
+  });
+});
+
+$<HTMLButtonElement>('reset').addEventListener('click', () => {
+  if (confirm('Replace all settings with the defaults?')) save(DEFAULT_SETTINGS, 'Defaults restored');
+});
+
+$<HTMLButtonElement>('export').addEventListener('click', () => {
+  const s = readFormOrReport();
+  if (!s) return;
+  const blob = new Blob([JSON.stringify(s, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = 'aws-assist-settings.json';
+  a.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+});
+
+$<HTMLButtonElement>('import').addEventListener('click', () => importFileEl.click());
+importFileEl.addEventListener('change', async () => {
+  const file = importFileEl.files?.[0];
+  importFileEl.value = '';
+  if (!file) return;
+  try {
+    const raw = JSON.parse(await file.text());
+    // Missing or invalid fields fall back to defaults rather than failing the import
+    await save(normalizeSettings(raw), `Imported ${file.name}`);
+  } catch (e: any) {
+    showStatus(`Import failed: ${e?.message || e}`, true);
+  }
+});
+
+loadSettings().then(render);
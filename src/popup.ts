@@ -1,14 +1,237 @@
+import { loadSettings, saveSettings, siteHost } from './background/settings.js';
+
+const siteEl = document.getElementById('site') as HTMLSpanElement;
+const siteEnabledEl = document.getElementById('siteEnabled') as HTMLInputElement;
+const siteEnabledLabel = document.getElementById('siteEnabledLabel') as HTMLSpanElement;
+const panelToggle = document.getElementById('panelToggle') as HTMLButtonElement;
+const usageEl = document.getElementById('usage') as HTMLDivElement;
+const providerEl = document.getElementById('provider') as HTMLSelectElement;
+const baseUrlEl = document.getElementById('baseUrl') as HTMLInputElement;
+const modelEl = document.getElementById('model') as HTMLInputElement;
+const keyStateEl = document.getElementById('keyState') as HTMLSpanElement;
+const replaceKeyBtn = document.getElementById('replaceKey') as HTMLButtonElement;
+const clearKeyBtn = document.getElementById('clearKey') as HTMLButtonElement;
+const keyFormEl = document.getElementById('keyForm') as HTMLDivElement;
+const keyLabelEl = document.getElementById('keyLabel') as HTMLLabelElement;
 const keyEl = document.getElementById('key') as HTMLInputElement;
 const persistEl = document.getElementById('persist') as HTMLInputElement;
+const passphraseRow = document.getElementById('passphraseRow') as HTMLDivElement;
+const passphraseEl = document.getElementById('passphrase') as HTMLInputElement;
+const vaultEl = document.getElementById('vault') as HTMLDivElement;
+const vaultStateEl = document.getElementById('vaultState') as HTMLSpanElement;
+const vaultToggle = document.getElementById('vaultToggle') as HTMLButtonElement;
 const saveBtn = document.getElementById('save') as HTMLButtonElement;
 const statusEl = document.getElementById('status') as HTMLSpanElement;
+const optionsLink = document.getElementById('options') as HTMLAnchorElement;
+
+type ProviderInfo = {
+  id: string; label: string; needsKey: boolean; defaultBaseUrl: string; defaultModel: string;
+  hasKey: boolean; persisted: boolean; encrypted: boolean; locked: boolean;
+};
+let providers: ProviderInfo[] = [];
+let vault = { exists: false, locked: false };
+let replacing = false; // the key form is open over a key that is already set
+
+function refreshStatus(first = false) {
+  chrome.runtime.sendMessage({ kind: 'GET_KEY_STATUS' }, (st: any) => {
+    if (!st) return;
+    providers = st.providers || [];
+    vault = st.vault || vault;
+    if (first) {
+      providerEl.innerHTML = '';
+      for (const p of providers) {
+        const opt = document.createElement('option');
+        opt.value = p.id;
+        opt.textContent = p.label;
+        providerEl.appendChild(opt);
+      }
+      providerEl.value = st.provider;
+      baseUrlEl.value = st.baseUrl || '';
+      modelEl.value = st.model || '';
+    }
+    syncProviderFields();
+  });
+}
+refreshStatus(true);
+
+providerEl.addEventListener('change', () => {
+  baseUrlEl.value = '';
+  modelEl.value = '';
+  replacing = false;
+  syncProviderFields();
+});
+
+function syncProviderFields() {
+  const p = providers.find((x) => x.id === providerEl.value);
+  if (!p) return;
+  baseUrlEl.placeholder = p.defaultBaseUrl;
+  modelEl.placeholder = p.defaultModel;
+  keyLabelEl.textContent = p.needsKey ? `${p.label} API Key` : `${p.label} API Key (optional)`;
+  keyEl.placeholder = p.hasKey ? '(key set — leave blank to keep)' : p.locked ? '(saved key locked)' : 'sk-...';
+  keyStateEl.textContent = keyState(p);
+  const has = p.hasKey || p.locked;
+  replaceKeyBtn.style.display = has && !replacing ? '' : 'none';
+  clearKeyBtn.style.display = has ? '' : 'none';
+  keyFormEl.style.display = !has || replacing ? '' : 'none';
+  saveBtn.textContent = keyFormEl.style.display ? 'Save' : 'Set Key';
+  syncVault();
+}
+
+function keyState(p: ProviderInfo): string {
+  if (p.locked) return '🔒 Key saved, locked';
+  if (p.hasKey && p.encrypted) return 'Key saved on this device (encrypted)';
+  if (p.hasKey) return 'Key set for this session';
+  return p.needsKey ? 'No key set' : 'No key needed';
+}
+
+replaceKeyBtn.addEventListener('click', () => {
+  replacing = true;
+  syncProviderFields();
+  keyEl.focus();
+});
+
+clearKeyBtn.addEventListener('click', () => {
+  const p = providers.find((x) => x.id === providerEl.value);
+  if (!p) return;
+  if (p.persisted && !confirm(`Delete the ${p.label} key saved on this device?`)) return;
+  chrome.runtime.sendMessage({ kind: 'CLEAR_API_KEY', provider: p.id }, () => {
+    replacing = false;
+    showStatus('Key cleared', true);
+    refreshStatus();
+  });
+});
+
+// The passphrase is needed to create the vault or to open a locked one
+function syncVault() {
+  passphraseRow.style.display = vault.locked || (persistEl.checked && !vault.exists) ? '' : 'none';
+  passphraseEl.placeholder = vault.exists ? 'Passphrase for saved keys' : 'Choose a passphrase';
+  vaultEl.style.display = vault.exists ? '' : 'none';
+  vaultStateEl.textContent = vault.locked ? '🔒 Saved keys are locked' : '🔓 Saved keys are unlocked';
+  vaultToggle.textContent = vault.locked ? 'Unlock' : 'Lock';
+}
+
+persistEl.addEventListener('change', syncVault);
+
+vaultToggle.addEventListener('click', () => {
+  if (!vault.locked) {
+    chrome.runtime.sendMessage({ kind: 'LOCK_KEYS' }, () => {
+      showStatus('Locked', true);
+      refreshStatus();
+    });
+    return;
+  }
+  const passphrase = passphraseEl.value;
+  if (!passphrase) {
+    passphraseEl.focus();
+    return;
+  }
+  chrome.runtime.sendMessage({ kind: 'UNLOCK_KEYS', passphrase }, (res: any) => {
+    showStatus(res?.ok ? 'Unlocked' : res?.error || 'Failed', !!res?.ok);
+    if (res?.ok) passphraseEl.value = '';
+    refreshStatus();
+  });
+});
+
+function showStatus(text: string, ok: boolean) {
+  statusEl.textContent = text;
+  statusEl.className = ok ? 'ok' : 'err';
+}
+
+optionsLink.addEventListener('click', (e) => {
+  e.preventDefault();
+  chrome.runtime.openOptionsPage();
+});
 
 saveBtn.addEventListener('click', () => {
   const v = (keyEl.value || '').trim();
-  if (!v) return;
-  chrome.runtime.sendMessage({ kind: 'SET_API_KEY', key: v, persist: !!persistEl.checked }, (res: any) => {
-    statusEl.textContent = (res && res.ok)
-      ? (res.persisted ? 'Key saved on this device' : 'Key set for this session')
-      : 'Failed';
+  const p = providers.find((x) => x.id === providerEl.value);
+  if (!v && p?.needsKey && !p.hasKey) return;
+  const msg: any = {
+    kind: 'SET_API_KEY',
+    provider: providerEl.value,
+    baseUrl: baseUrlEl.value,
+    model: modelEl.value,
+    persist: !!persistEl.checked
+  };
+  if (v) msg.key = v; // blank keeps the stored key for this provider
+  if (passphraseEl.value) msg.passphrase = passphraseEl.value;
+  statusEl.textContent = v ? 'Checking key…' : '';
+  saveBtn.disabled = true;
+  chrome.runtime.sendMessage(msg, (res: any) => {
+    saveBtn.disabled = false;
+    if (res && res.ok) {
+      const done = res.persisted ? 'Saved on this device' : 'Set for this session';
+      showStatus(res.warning ? `${done}. ${res.warning}` : done, true);
+      keyEl.value = '';
+      passphraseEl.value = '';
+      replacing = false;
+    } else {
+      showStatus(res?.error || 'Failed', false);
+    }
+    refreshStatus();
+  });
+});
+
+// ---------- This tab: the panel and the per-site switch ----------
+let activeTabId: number | null = null;
+let panelOpen = false;
+
+function syncPanelButton(available: boolean) {
+  panelToggle.disabled = !available || !siteEnabledEl.checked;
+  panelToggle.textContent = panelOpen ? 'Close panel' : 'Open panel';
+}
+
+// The panel lives in the top frame; pages opened before the extension loaded have none
+function panelState(open?: boolean) {
+  if (activeTabId == null) return;
+  chrome.tabs.sendMessage(activeTabId, { kind: 'PANEL_STATE', open }, { frameId: 0 }, (res: any) => {
+    if (chrome.runtime.lastError || !res) {
+      siteEl.textContent += ' (reload the page to use the assistant)';
+      syncPanelButton(false);
+      return;
+    }
+    panelOpen = !!res.open;
+    syncPanelButton(true);
+  });
+}
+
+chrome.tabs.query({ active: true, currentWindow: true }, async ([tab]) => {
+  const host = tab?.url ? siteHost(tab.url) : null;
+  activeTabId = tab?.id ?? null;
+  if (!host) {
+    siteEl.textContent = 'The assistant is not available on this page';
+    siteEnabledEl.disabled = true;
+    syncPanelButton(false);
+    return;
+  }
+  siteEl.textContent = host;
+  siteEnabledLabel.textContent = `Enabled on ${host}`;
+  siteEnabledEl.checked = !(await loadSettings()).disabledSites.includes(host);
+  panelState();
+
+  // Synced settings: the switch follows this user to their other devices
+  siteEnabledEl.addEventListener('change', async () => {
+    const s = await loadSettings();
+    const others = s.disabledSites.filter((h) => h !== host);
+    await saveSettings({ ...s, disabledSites: siteEnabledEl.checked ? others : [...others, host] });
+    if (!siteEnabledEl.checked) panelOpen = false; // the tab closes it on SETTINGS_CHANGED
+    syncPanelButton(true);
   });
 });
+
+panelToggle.addEventListener('click', () => panelState(!panelOpen));
+
+// ---------- Usage: the worker's queue and rate budget for the active model ----------
+function refreshUsage() {
+  chrome.runtime.sendMessage({ kind: 'GET_STATUS' }, (st: any) => {
+    if (!st) return;
+    // "~" marks the worker's own estimate until the provider has sent rate-limit headers
+    const est = st.source === 'server' ? '' : '~';
+    const secs = Math.ceil((st.nextResetMs || 0) / 1000);
+    const queued = st.queue ? ` (${st.queuedTokens} tok)` : '';
+    usageEl.textContent = `${st.model ? `${st.model} · ` : ''}Queue: ${st.queue || 0}${queued} · RPM: ${est}${st.rpmRemaining}/${st.rpmMax} · TPM: ${est}${st.tpmRemaining}/${st.tpmMax} · Next: ${secs}s`;
+    usageEl.title = st.lastUsage ? `Last request: ${st.lastUsage.inputTokens} in + ${st.lastUsage.outputTokens} out tokens` : '';
+  });
+}
+refreshUsage();
+setInterval(refreshUsage, 1000);